@@ -0,0 +1,318 @@
+/*
+* This program and the accompanying materials are made available under the terms of the
+* Eclipse Public License v2.0 which accompanies this distribution, and is available at
+* https://www.eclipse.org/legal/epl-v20.html
+*
+* SPDX-License-Identifier: EPL-2.0
+*
+* Copyright Contributors to the Zowe Project.
+*/
+
+import type { CommonBot } from './CommonBot';
+import { IChatContextData, ICommand, ICommandHelp, ICommandHelpItem, ICommandParameter, ICommandValueType, IDisposerFunction, IListenerOption,
+    IMessageHandlerResult, IMessageType, IPayloadType } from './types';
+import { CommandParser } from './utils/CommandParser';
+import { Logger } from './utils/Logger';
+
+const logger = Logger.getInstance();
+const HELP_COMMAND = 'help';
+const MAX_SUGGESTIONS = 3;
+
+export class CommandRegistry {
+    private bot: CommonBot;
+    private commands: ICommand[];
+    private option: IListenerOption;
+    private disposer: IDisposerFunction;
+
+    // Constructor
+    constructor(bot: CommonBot) {
+        this.bot = bot;
+        this.commands = [];
+        this.option = {};
+        this.disposer = null;
+
+        this.matchCommand = this.matchCommand.bind(this);
+        this.processCommand = this.processCommand.bind(this);
+    }
+
+    // Register command
+    //  - command: the command definition
+    //  - option: the option of the listener that receives the commands, only used for the first registered command.
+    async register(command: ICommand, option?: IListenerOption): Promise<IDisposerFunction> {
+        // Print start log
+        logger.start(this.register, this);
+
+        try {
+            // Check the command name
+            const name = (command.name === undefined || command.name === null) ? '' : command.name.trim().split(/\s+/).join(' ');
+            if (name === '') {
+                logger.error(`The command name is empty`);
+                throw new Error(`Invalid command name`);
+            }
+            if (this.getCommand(name) !== null) {
+                logger.error(`The command ${name} has been registered`);
+                throw new Error(`Duplicated command name`);
+            }
+
+            command.name = name;
+            this.commands.push(command);
+
+            // Listen the messages once for all commands
+            if (this.disposer === null) {
+                if (option !== undefined && option !== null) {
+                    this.option = option;
+                }
+                this.disposer = await this.bot.listen(this.matchCommand, this.processCommand, this.option);
+            }
+
+            return () => {
+                this.unregister(command);
+            };
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            throw err;
+        } finally {
+            // Print end log
+            logger.end(this.register, this);
+        }
+    }
+
+    // Unregister command, the listener is removed if no command is left.
+    unregister(command: ICommand): boolean {
+        const index = this.commands.indexOf(command);
+        if (index === -1) {
+            return false;
+        }
+
+        this.commands.splice(index, 1);
+        if (this.commands.length === 0 && this.disposer !== null) {
+            this.disposer();
+            this.disposer = null;
+        }
+
+        return true;
+    }
+
+    // Get commands
+    getCommands(): ICommand[] {
+        return this.commands;
+    }
+
+    // Get command by name
+    getCommand(name: string): ICommand {
+        const commandName = name.trim().split(/\s+/).join(' ').toLowerCase();
+        const command = this.commands.find((item) => item.name.toLowerCase() === commandName);
+        return command === undefined ? null : command;
+    }
+
+    // Find the command with the longest name that matches the beginning of the tokens
+    findCommand(tokens: string[]): { command: ICommand, length: number } {
+        let result: { command: ICommand, length: number } = null;
+        for (const command of this.commands) {
+            const length = CommandParser.matchName(command, tokens);
+            if (length > 0 && (result === null || length > result.length)) {
+                result = { 'command': command, 'length': length };
+            }
+        }
+
+        return result;
+    }
+
+    // Get the command text without the @mention of the bot, return null if the message is not sent to the bot.
+    getCommandText(chatContextData: IChatContextData): string {
+        if (chatContextData.payload.type !== IPayloadType.MESSAGE || typeof chatContextData.payload.data !== 'string') {
+            return null;
+        }
+
+        return CommandParser.stripMention(chatContextData.payload.data, chatContextData.context.chatting.botName);
+    }
+
+    // Get the commands whose name is similar to or starts with the beginning of the tokens, the most similar one comes first.
+    getSuggestions(tokens: string[]): string[] {
+        const suggestions: { name: string, distance: number }[] = [];
+        for (const command of this.commands) {
+            const words = command.name.split(' ');
+            const input = tokens.slice(0, words.length).join(' ').toLowerCase();
+            const distance = command.name.toLowerCase().startsWith(`${input} `) ? 0 : CommandParser.getDistance(input, command.name.toLowerCase());
+            if (distance <= Math.max(1, Math.floor(command.name.length / 3))) {
+                suggestions.push({ 'name': command.name, 'distance': distance });
+            }
+        }
+        suggestions.sort((a, b) => a.distance - b.distance);
+
+        return suggestions.slice(0, MAX_SUGGESTIONS).map((suggestion) => suggestion.name);
+    }
+
+    // Reply the unknown command along with suggestions if the message is sent to the bot
+    async processUnknownCommand(chatContextData: IChatContextData): Promise<void> {
+        if (this.commands.length === 0) {
+            return;
+        }
+
+        const text = this.getCommandText(chatContextData);
+        if (text === null) {
+            return;
+        } else if (text === '') {
+            await this.processHelp(chatContextData, []);
+            return;
+        }
+
+        let tokens: string[] = [];
+        try {
+            tokens = CommandParser.tokenize(text);
+        } catch (err) {
+            tokens = text.split(/\s+/);
+        }
+        await this.replyUnknownCommand(chatContextData, tokens);
+    }
+
+    // Match the messages whose first word is the first word of one registered command or the help command
+    private matchCommand(chatContextData: IChatContextData): boolean {
+        const text = this.getCommandText(chatContextData);
+        if (text === null || text === '') {
+            return false;
+        }
+
+        const firstWord = text.split(/\s+/)[0].toLowerCase();
+        return firstWord === HELP_COMMAND || this.commands.some((command) => command.name.split(' ')[0].toLowerCase() === firstWord);
+    }
+
+    // Parse the command and call its handler
+    private async processCommand(chatContextData: IChatContextData): Promise<void | IMessageHandlerResult> {
+        // Print start log
+        logger.start(this.processCommand, this);
+
+        try {
+            const text = this.getCommandText(chatContextData);
+            let tokens: string[] = [];
+            try {
+                tokens = CommandParser.tokenize(text);
+            } catch (err) {
+                await this.reply(chatContextData, err.message);
+                return IMessageHandlerResult.STOP;
+            }
+
+            // The built-in help command is used only if no help command is registered
+            const matched = this.findCommand(tokens);
+            if (matched === null && tokens[0].toLowerCase() === HELP_COMMAND) {
+                await this.processHelp(chatContextData, tokens.slice(1));
+                return IMessageHandlerResult.STOP;
+            } else if (matched === null) {
+                await this.replyUnknownCommand(chatContextData, tokens);
+                return IMessageHandlerResult.STOP;
+            }
+
+            // Parse arguments and options
+            try {
+                chatContextData.command = CommandParser.parse(matched.command, tokens.slice(matched.length));
+            } catch (err) {
+                if (err.name !== 'CommandError') {
+                    throw err;
+                }
+                await this.reply(chatContextData, `${err.message}\nUsage: ${CommandParser.getUsage(matched.command)}`);
+                return IMessageHandlerResult.STOP;
+            }
+
+            return await matched.command.handler(chatContextData);
+        } finally {
+            // Print end log
+            logger.end(this.processCommand, this);
+        }
+    }
+
+    // Reply the help of all commands, or one command if the command name is provided
+    private async processHelp(chatContextData: IChatContextData, tokens: string[]): Promise<void> {
+        const helpCommand = this.getHelpCommand(chatContextData);
+        let help: ICommandHelp = null;
+        if (tokens.length === 0) {
+            help = {
+                'title': 'Commands',
+                'items': this.commands.map((command) => ({
+                    'name': CommandParser.getUsage(command),
+                    'description': command.description === undefined || command.description === null ? '' : command.description,
+                })),
+                'footer': `Type \`${helpCommand} <command>\` to show the details of one command.`,
+            };
+        } else {
+            const matched = this.findCommand(tokens);
+            if (matched === null || matched.length !== tokens.length) {
+                await this.replyUnknownCommand(chatContextData, tokens);
+                return;
+            }
+
+            const command = matched.command;
+            const items: ICommandHelpItem[] = [];
+            if (command.arguments !== undefined && command.arguments !== null) {
+                for (const definition of command.arguments) {
+                    items.push({
+                        'name': definition.required === true ? `<${definition.name}>` : `[${definition.name}]`,
+                        'description': this.describeParameter(definition),
+                    });
+                }
+            }
+            if (command.options !== undefined && command.options !== null) {
+                for (const definition of command.options) {
+                    items.push({
+                        'name': definition.alias === undefined || definition.alias === null
+                            ? `--${definition.name}` : `-${definition.alias}, --${definition.name}`,
+                        'description': this.describeParameter(definition),
+                    });
+                }
+            }
+            help = {
+                'title': CommandParser.getUsage(command),
+                'description': command.description,
+                'items': items,
+            };
+        }
+
+        // Render the help in the native format of the chat tool
+        const middleware = this.bot.getMiddleware(chatContextData.context.chatToolType);
+        if (middleware === null) {
+            logger.error(`No middleware found for the chat tool: ${chatContextData.context.chatToolType}`);
+            return;
+        }
+        await this.bot.send(chatContextData, middleware.createHelpMessages(chatContextData, help));
+    }
+
+    // Reply the unknown command with the similar commands
+    private async replyUnknownCommand(chatContextData: IChatContextData, tokens: string[]): Promise<void> {
+        let message = `Unknown command: ${tokens.join(' ')}`;
+        const suggestions = this.getSuggestions(tokens);
+        if (suggestions.length > 0) {
+            message = `${message}\nDid you mean: ${suggestions.map((suggestion) => `\`${suggestion}\``).join(', ')}?`;
+        }
+        message = `${message}\nType \`${this.getHelpCommand(chatContextData)}\` to list all commands.`;
+
+        await this.reply(chatContextData, message);
+    }
+
+    // Get the help command with the @mention of the bot
+    private getHelpCommand(chatContextData: IChatContextData): string {
+        const botName = chatContextData.context.chatting.botName;
+        return (botName === undefined || botName === null || botName === '') ? HELP_COMMAND : `@${botName} ${HELP_COMMAND}`;
+    }
+
+    // Get the description of one argument or option, including its type and default value
+    private describeParameter(definition: ICommandParameter): string {
+        const details: string[] = [definition.type === undefined ? ICommandValueType.STRING : definition.type];
+        if (definition.required === true) {
+            details.push('required');
+        }
+        if (definition.default !== undefined) {
+            details.push(`default: ${definition.default}`);
+        }
+        const description = (definition.description === undefined || definition.description === null) ? '' : `${definition.description} `;
+
+        return `${description}(${details.join(', ')})`;
+    }
+
+    // Reply plain text message
+    private async reply(chatContextData: IChatContextData, message: string): Promise<void> {
+        await this.bot.send(chatContextData, [{
+            'type': IMessageType.PLAIN_TEXT,
+            'message': message,
+        }]);
+    }
+}
@@ -8,51 +8,163 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IBotOption, IChatContextData, IChatToolType, IMattermostBotLimit, IMessage, IMessageHandlerFunction, IMessageMatcherFunction,
-    IMsteamsBotLimit, IRouteHandlerFunction, ISlackBotLimit } from './types';
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { IBotEventListeners, IBotHealth, IBotOption, IBotState, IChannel, IChannelOption, IChannelRef, IChannelResult, IChatContextData, IChatTool,
+    IChatToolAdapter, IChatToolHealth, IChatToolType, ICommand, IConnectionStatus, IDisposerFunction, IErrorHandlerFunction, IInboundMiddlewareFunction,
+    ILifecycleOption, IListenerOption, IMattermostBotLimit, IMessage, IMessageHandlerFunction, IMessageMatcherFunction, IMessageRef, IMsteamsBotLimit,
+    INextFunction, IOutboundInterceptorFunction, IOutboundTarget, IRouteHandlerFunction, IRouteOption, ISendOption, ISendResult, ISlackBotLimit,
+    IUserRef } from './types';
 
 import { Listener } from './Listener';
 import { Logger } from './utils/Logger';
 import { Router } from './Router';
 import { Middleware } from './Middleware';
+import { CommandRegistry } from './CommandRegistry';
 
-import fs from 'fs';
 import { BotLimit } from './BotLimit';
 import { MattermostBotLimit } from './plugins/mattermost/MattermostBotLimit';
+import { MattermostListener } from './plugins/mattermost/MattermostListener';
+import { MattermostMiddleware } from './plugins/mattermost/MattermostMiddleware';
+import { MattermostRouter } from './plugins/mattermost/MattermostRouter';
 import { SlackBotLimit } from './plugins/slack/SlackBotLimit';
+import { SlackListener } from './plugins/slack/SlackListener';
+import { SlackMiddleware } from './plugins/slack/SlackMiddleware';
+import { SlackRouter } from './plugins/slack/SlackRouter';
 import { MsteamsBotLimit } from './plugins/msteams/MsteamsBotLimit';
+import { MsteamsListener } from './plugins/msteams/MsteamsListener';
+import { MsteamsMiddleware } from './plugins/msteams/MsteamsMiddleware';
+import { MsteamsRouter } from './plugins/msteams/MsteamsRouter';
 
 const logger = Logger.getInstance();
+const DEFAULT_LIFECYCLE_TIMEOUT = 30000;
+const READY_CHECK_INTERVAL = 100;
+
 export class CommonBot {
+    private static adapters: Map<IChatToolType, IChatToolAdapter> = new Map<IChatToolType, IChatToolAdapter>();
+
     private option: IBotOption;
-    private limit: BotLimit | MattermostBotLimit | SlackBotLimit | MsteamsBotLimit;
-    private middleware: Middleware;
+    private chatTools: IChatTool[];
+    private limits: Map<IChatToolType, BotLimit | MattermostBotLimit | SlackBotLimit | MsteamsBotLimit>;
+    private middlewares: Map<IChatToolType, Middleware>;
     private listeners: Listener[]; // MsteamsListener | SlackListener[] | MattermostListener[];
-    private router: Router; // | MsteamsRouter | SlackRouter | MattermostRouter;
+    private routers: Map<IChatToolType, Router>; // MsteamsRouter | SlackRouter | MattermostRouter;
+    private errorHandler: IErrorHandlerFunction;
+    private commandRegistry: CommandRegistry;
+    private inboundMiddlewares: IInboundMiddlewareFunction[];
+    private outboundInterceptors: IOutboundInterceptorFunction[];
+    private state: IBotState;
+    private inFlightTasks: Set<Promise<void>>;
+    private eventEmitter: EventEmitter;
 
     // Constructor
     constructor(option: IBotOption) {
         this.option = option;
         logger.info(`Bot option: ${JSON.stringify(this.option, null, 4)}`);
 
-        // Create Limit instance
-        if (this.option.chatTool.type === IChatToolType.MATTERMOST) {
-            this.limit = new MattermostBotLimit();
-        } else if (this.option.chatTool.type === IChatToolType.SLACK) {
-            this.limit = new SlackBotLimit();
-        } else if (this.option.chatTool.type === IChatToolType.MSTEAMS) {
-            this.limit = new MsteamsBotLimit();
-        } else {
-            this.limit = null;
-        }
-
-        this.middleware = null;
+        this.limits = new Map<IChatToolType, BotLimit | MattermostBotLimit | SlackBotLimit | MsteamsBotLimit>();
+        this.middlewares = new Map<IChatToolType, Middleware>();
         this.listeners = [];
-        this.router = null;
+        this.routers = new Map<IChatToolType, Router>();
+        this.errorHandler = null;
+        this.commandRegistry = new CommandRegistry(this);
+        this.inboundMiddlewares = [];
+        this.outboundInterceptors = [];
+        this.state = IBotState.CREATED;
+        this.inFlightTasks = new Set<Promise<void>>();
+        this.eventEmitter = new EventEmitter();
+
+        this.setChatTools();
+        this.mountHealthEndpoints();
 
+        this.start = this.start.bind(this);
+        this.stop = this.stop.bind(this);
         this.listen = this.listen.bind(this);
         this.route = this.route.bind(this);
+        this.use = this.use.bind(this);
+        this.intercept = this.intercept.bind(this);
+        this.command = this.command.bind(this);
         this.send = this.send.bind(this);
+        this.update = this.update.bind(this);
+        this.delete = this.delete.bind(this);
+        this.addReaction = this.addReaction.bind(this);
+        this.removeReaction = this.removeReaction.bind(this);
+        this.sendDirect = this.sendDirect.bind(this);
+        this.getChannels = this.getChannels.bind(this);
+        this.findChannel = this.findChannel.bind(this);
+        this.createChannel = this.createChannel.bind(this);
+        this.inviteToChannel = this.inviteToChannel.bind(this);
+        this.archiveChannel = this.archiveChannel.bind(this);
+        this.handleError = this.handleError.bind(this);
+        this.handleUnmatchedMessage = this.handleUnmatchedMessage.bind(this);
+    }
+
+    // Add event listener
+    //  - event: connected, disconnected, reconnecting, messageReceived, actionReceived, sendFailed or handlerError
+    on<E extends keyof IBotEventListeners>(event: E, listener: IBotEventListeners[E]): this {
+        this.eventEmitter.on(event, listener);
+        return this;
+    }
+
+    // Add event listener which is called only once
+    once<E extends keyof IBotEventListeners>(event: E, listener: IBotEventListeners[E]): this {
+        this.eventEmitter.once(event, listener);
+        return this;
+    }
+
+    // Remove event listener
+    off<E extends keyof IBotEventListeners>(event: E, listener: IBotEventListeners[E]): this {
+        this.eventEmitter.off(event, listener);
+        return this;
+    }
+
+    // Emit event, errors thrown by event listeners are logged and will not break the bot.
+    emit<E extends keyof IBotEventListeners>(event: E, ...args: Parameters<IBotEventListeners[E]>): boolean {
+        try {
+            return this.eventEmitter.emit(event, ...args);
+        } catch (err) {
+            logger.error(`Failed to process the event ${event}`);
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return true;
+        }
+    }
+
+    // Register the adapter of one chat tool
+    //  - type: the chat tool type. Built-in adapters can be replaced by registering a new adapter with the same type.
+    //  - adapter: the listener, router, middleware and limit classes of the chat tool
+    static registerAdapter(type: IChatToolType, adapter: IChatToolAdapter): void {
+        if (CommonBot.adapters.has(type)) {
+            logger.warn(`The adapter for the chat tool "${type}" is replaced.`);
+        }
+        CommonBot.adapters.set(type, adapter);
+    }
+
+    // Get the registered adapter of one chat tool, null will be returned if not registered.
+    static getAdapter(type: IChatToolType): IChatToolAdapter {
+        if (CommonBot.adapters.has(type)) {
+            return CommonBot.adapters.get(type);
+        } else {
+            return null;
+        }
+    }
+
+    // Normalize the chat tools in bot option
+    private setChatTools(): void {
+        if (Array.isArray(this.option.chatTool)) {
+            this.chatTools = this.option.chatTool;
+        } else {
+            this.chatTools = [this.option.chatTool];
+        }
+
+        const chatToolTypes = new Set<IChatToolType>();
+        for (const chatTool of this.chatTools) {
+            if (chatToolTypes.has(chatTool.type)) {
+                logger.error(`Duplicated chat tool in bot option: ${chatTool.type}`);
+                throw new Error(`Duplicated chat tool`);
+            }
+            chatToolTypes.add(chatTool.type);
+        }
+        this.limits.clear();
     }
 
     // Get option
@@ -63,56 +175,247 @@ export class CommonBot {
     // Set option
     setOption(option: IBotOption): void {
         this.option = option;
+        this.setChatTools();
+    }
+
+    // Get the health of the bot and all chat tools
+    //  - the bot is ready only if it's running, i.e. start() has returned, and all chat tools are ready.
+    getHealth(): IBotHealth {
+        const chatTools: IChatToolHealth[] = [];
+        for (const chatTool of this.chatTools) {
+            const middleware = this.middlewares.get(chatTool.type);
+            if (middleware === undefined) {
+                chatTools.push({
+                    'chatToolType': chatTool.type,
+                    'ready': false,
+                    'status': IConnectionStatus.NOT_CONNECTED,
+                });
+            } else {
+                chatTools.push(middleware.getHealth());
+            }
+        }
+
+        return {
+            'state': this.state,
+            'ready': this.state === IBotState.RUNNING && chatTools.every((health) => health.ready),
+            'chatTools': chatTools,
+        };
+    }
+
+    // Whether messages and events are accepted, they are dropped once the bot is stopping
+    isAccepting(): boolean {
+        return this.state !== IBotState.STOPPING && this.state !== IBotState.STOPPED;
+    }
+
+    // Get the lifecycle state
+    getState(): IBotState {
+        return this.state;
+    }
+
+    // Start the bot: connect all chat tools and wait until they are ready
+    //  - option: timeout to wait for the chat tools to be ready
+    async start(option?: ILifecycleOption): Promise<void> {
+        // Print start log
+        logger.start(this.start, this);
+
+        try {
+            if (this.state === IBotState.STARTING || this.state === IBotState.RUNNING) {
+                logger.warn(`The bot is ${this.state} already.`);
+                return;
+            }
+            if (this.state === IBotState.STOPPING || this.state === IBotState.STOPPED) {
+                logger.error(`The bot could not be started since it is ${this.state}.`);
+                throw new Error(`The bot is ${this.state}`);
+            }
+            this.state = IBotState.STARTING;
+
+            // Create and run the middleware of each chat tool, the chat tools are only connected here
+            for (const chatTool of this.chatTools) {
+                const adapter = this.loadAdapter(chatTool);
+                this.createMiddleware(chatTool, adapter);
+            }
+            for (const middleware of this.getMiddlewares()) {
+                await middleware.run();
+            }
+
+            // Wait until all chat tools are ready
+            const timeout = this.getLifecycleTimeout(option);
+            const deadline = Date.now() + timeout;
+            for (const middleware of this.getMiddlewares()) {
+                while (!middleware.isReady()) {
+                    if (Date.now() >= deadline) {
+                        logger.error(`The chat tool ${middleware.getChatTool().type} is not ready after ${timeout} milliseconds.`);
+                        throw new Error(`The chat tool is not ready`);
+                    }
+                    await new Promise((resolve) => setTimeout(resolve, READY_CHECK_INTERVAL));
+                }
+            }
+
+            this.state = IBotState.RUNNING;
+            logger.info('The bot is running.');
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            if (this.state === IBotState.STARTING) {
+                this.state = IBotState.CREATED;
+            }
+            throw err;
+        } finally {
+            // Print end log
+            logger.end(this.start, this);
+        }
+    }
+
+    // Stop the bot gracefully: stop accepting messages and events, wait for in-flight handlers and disconnect all chat tools
+    //  - option: timeout to wait for in-flight handlers, the chat tools will be disconnected anyway after the timeout.
+    async stop(option?: ILifecycleOption): Promise<void> {
+        // Print start log
+        logger.start(this.stop, this);
+
+        try {
+            if (this.state === IBotState.STOPPING || this.state === IBotState.STOPPED) {
+                logger.warn(`The bot is ${this.state} already.`);
+                return;
+            }
+            this.state = IBotState.STOPPING;
+
+            // Drain in-flight messages and events
+            const timeout = this.getLifecycleTimeout(option);
+            if (this.inFlightTasks.size > 0) {
+                logger.info(`Waiting for ${this.inFlightTasks.size} in-flight messages or events ...`);
+                let timer: ReturnType<typeof setTimeout> = null;
+                const drain = async (): Promise<boolean> => {
+                    // Tasks could be tracked while draining, e.g. handlers that keep running after they time out
+                    while (this.inFlightTasks.size > 0) {
+                        await Promise.all([...this.inFlightTasks]);
+                    }
+                    return true;
+                };
+                const drained = await Promise.race([
+                    drain(),
+                    new Promise<boolean>((resolve) => {
+                        timer = setTimeout(() => resolve(false), timeout);
+                    }),
+                ]);
+                clearTimeout(timer);
+                if (!drained) {
+                    logger.warn(`${this.inFlightTasks.size} in-flight messages or events are not finished after ${timeout} milliseconds.`);
+                }
+            }
+
+            // Disconnect all chat tools
+            for (const middleware of this.getMiddlewares()) {
+                try {
+                    await middleware.stop();
+                } catch (err) {
+                    logger.error(`Failed to stop the chat tool ${middleware.getChatTool().type}`);
+                    logger.error(logger.getErrorStack(new Error(err.name), err));
+                }
+            }
+
+            this.state = IBotState.STOPPED;
+            logger.info('The bot is stopped.');
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
+
+    // Get all chat tools served by the bot
+    getChatTools(): IChatTool[] {
+        return this.chatTools;
+    }
+
+    // Get chat tool
+    //  - chatToolType: the type of the chat tool. It can be omitted if only one chat tool is configured.
+    getChatTool(chatToolType?: IChatToolType): IChatTool {
+        if (chatToolType === undefined || chatToolType === null) {
+            return (this.chatTools.length === 1) ? this.chatTools[0] : null;
+        }
+
+        for (const chatTool of this.chatTools) {
+            if (chatTool.type === chatToolType) {
+                return chatTool;
+            }
+        }
+
+        return null;
     }
 
     // Get limit
-    getLimit(): IMattermostBotLimit | ISlackBotLimit | IMsteamsBotLimit {
-        if (this.limit !== null) {
-            return this.limit.getLimit();
+    //  - chatToolType: the type of the chat tool. It can be omitted if only one chat tool is configured.
+    getLimit(chatToolType?: IChatToolType): IMattermostBotLimit | ISlackBotLimit | IMsteamsBotLimit {
+        const chatTool = this.getChatTool(chatToolType);
+        if (chatTool === null) {
+            return null;
+        }
+
+        // Create limit instance if it has not been created
+        if (this.limits.has(chatTool.type) === false) {
+            const adapter = CommonBot.getAdapter(chatTool.type);
+            if (adapter !== null && adapter.BotLimit !== undefined && adapter.BotLimit !== null) {
+                this.limits.set(chatTool.type, new adapter.BotLimit());
+            } else {
+                this.limits.set(chatTool.type, null);
+            }
+        }
+
+        if (this.limits.get(chatTool.type) !== null) {
+            return this.limits.get(chatTool.type).getLimit();
         } else {
             return null;
         }
     }
 
     // Get middleware
-    getMiddleware(): Middleware {
-        return this.middleware;
+    //  - chatToolType: the type of the chat tool. It can be omitted if only one chat tool is configured.
+    getMiddleware(chatToolType?: IChatToolType): Middleware {
+        const chatTool = this.getChatTool(chatToolType);
+        if (chatTool !== null && this.middlewares.has(chatTool.type)) {
+            return this.middlewares.get(chatTool.type);
+        } else {
+            return null;
+        }
+    }
+
+    // Get all middlewares
+    getMiddlewares(): Middleware[] {
+        return Array.from(this.middlewares.values());
     }
 
     // Set middleware
     setMiddleware(middleware: Middleware): void {
-        this.middleware = middleware;
+        this.middlewares.set(middleware.getChatTool().type, middleware);
     }
 
     // Listen all messages send to bot
-    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction): Promise<void> {
+    //  - option: the priority of the matcher. Matchers with higher priority will be matched first.
+    //  - return: the disposer function used to remove the created listeners
+    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction, option?: IListenerOption): Promise<IDisposerFunction> {
         // Print start log
         logger.start(this.listen, this);
 
+        const listeners: Listener[] = [];
+        const disposer: IDisposerFunction = () => {
+            for (const listener of listeners) {
+                this.removeListener(listener);
+            }
+        };
+
         try {
-            // Get chat tool type
-            const chatToolType = this.option.chatTool.type;
+            // Create one listener for each chat tool
+            for (const chatTool of this.chatTools) {
+                const adapter = this.loadAdapter(chatTool);
+                this.createMiddleware(chatTool, adapter);
 
-            // Create listener
-            let listener: Listener = null;
-            const pluginFileName = `${chatToolType.substring(0, 1).toUpperCase()}${chatToolType.substring(1)}Listener`;
-            logger.info(`Loading listener ${chatToolType}/${pluginFileName} ...`);
-            if (fs.existsSync(`${__dirname}/plugins/${chatToolType}`) === false ) {
-                logger.error(`Unsupported chat tool: ${chatToolType}`);
-                throw new Error(`Unsupported chat tool`);
-            } else {
-                if (fs.existsSync(`${__dirname}/plugins/${chatToolType}/${pluginFileName}.js`) === false) {
-                    logger.error(`The listener file "${__dirname}/plugins/${chatToolType}/${pluginFileName}.js" does not exist!`);
-                    throw new Error(`The required listener file "${__dirname}/plugins/${chatToolType}/${pluginFileName}.js" does not exist!`);
-                } else {
-                    const ChatToolListener = require(`./plugins/${chatToolType}/${pluginFileName}`);
-                    listener = new ChatToolListener[pluginFileName](this);
-                }
-            }
-            this.listeners.push(listener);
+                logger.info(`Creating listener for ${chatTool.type} ...`);
+                const listener = new adapter.Listener(this, chatTool);
+                this.listeners.push(listener);
+                listeners.push(listener);
 
-            // Listen
-            await listener.listen(matcher, handler);
+                // Listen
+                await listener.listen(matcher, handler, option);
+            }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -120,11 +423,18 @@ export class CommonBot {
             // Print end log
             logger.end(this.listen, this);
         }
+
+        return disposer;
     }
 
     // Get listeners
-    getListeners(): Listener[] {
-        return this.listeners;
+    //  - chatToolType: only return the listeners of the specified chat tool if it's provided.
+    getListeners(chatToolType?: IChatToolType): Listener[] {
+        if (chatToolType === undefined || chatToolType === null) {
+            return this.listeners;
+        }
+
+        return this.listeners.filter((listener) => listener.getChatToolType() === chatToolType);
     }
 
     // Add listener
@@ -132,33 +442,52 @@ export class CommonBot {
         this.listeners.push(listener);
     }
 
+    // Remove listener, messages will not be dispatched to it any more
+    removeListener(listener: Listener): boolean {
+        const index = this.listeners.indexOf(listener);
+        if (index === -1) {
+            return false;
+        }
+
+        this.listeners.splice(index, 1);
+        return true;
+    }
+
+    // Register command, the arguments and options are parsed and set to chatContextData.command before the handler is called.
+    //  - command: the command definition
+    //  - option: the option of the listener that receives all commands, only used for the first registered command.
+    async command(command: ICommand, option?: IListenerOption): Promise<IDisposerFunction> {
+        return await this.commandRegistry.register(command, option);
+    }
+
+    // Get command registry
+    getCommandRegistry(): CommandRegistry {
+        return this.commandRegistry;
+    }
+
     // Set webhook router
-    async route(basePath: string, handler: IRouteHandlerFunction): Promise<void> {
+    //  - option: the pluginId and / or actionId of the events that will be dispatched to the handler.
+    //            The handler will be the fallback route for all unmatched events if option is not provided.
+    async route(basePath: string, handler: IRouteHandlerFunction, option?: IRouteOption): Promise<void> {
         // Print start log
         logger.start(this.route, this);
 
         try {
-            // Get chat tool type
-            const chatToolType = this.option.chatTool.type;
+            // Create one router for each chat tool if it has not been created
+            for (const chatTool of this.chatTools) {
+                const adapter = this.loadAdapter(chatTool);
+                this.createMiddleware(chatTool, adapter);
 
-            // Create router
-            const pluginFileName = `${chatToolType.substring(0, 1).toUpperCase()}${chatToolType.substring(1)}Router`;
-            logger.info(`Loading router ${chatToolType}/${pluginFileName} ...`);
-            if (fs.existsSync(`${__dirname}/plugins/${chatToolType}`) === false ) {
-                logger.error(`Unsupported chat tool: ${chatToolType}`);
-                throw new Error(`Unsupported chat tool`);
-            } else {
-                if (fs.existsSync(`${__dirname}/plugins/${chatToolType}/${pluginFileName}.js`) === false) {
-                    logger.error(`The router file "${__dirname}/plugins/${chatToolType}/${pluginFileName}.js" does not exist!`);
-                    throw new Error(`The required router file "${__dirname}/plugins/${chatToolType}/${pluginFileName}.js" does not exist!`);
-                } else {
-                    const ChatToolRouter = require(`./plugins/${chatToolType}/${pluginFileName}`);
-                    this.router = new ChatToolRouter[pluginFileName](this);
+                let router = this.routers.get(chatTool.type);
+                if (router === undefined) {
+                    logger.info(`Creating router for ${chatTool.type} ...`);
+                    router = new adapter.Router(this, chatTool);
+                    this.routers.set(chatTool.type, router);
                 }
-            }
 
-            // Run router
-            await this.router.route(basePath, handler);
+                // Run router
+                await router.route(basePath, handler, option);
+            }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -169,23 +498,528 @@ export class CommonBot {
     }
 
     // Get router
-    geRouter(): Router {
-        return this.router;
+    //  - chatToolType: the type of the chat tool. It can be omitted if only one chat tool is configured.
+    getRouter(chatToolType?: IChatToolType): Router {
+        const chatTool = this.getChatTool(chatToolType);
+        if (chatTool !== null && this.routers.has(chatTool.type)) {
+            return this.routers.get(chatTool.type);
+        } else {
+            return null;
+        }
+    }
+
+    // Get router
+    // Deprecated: use getRouter() instead.
+    geRouter(chatToolType?: IChatToolType): Router {
+        return this.getRouter(chatToolType);
     }
 
-    // Send message to channel
-    async send(chatContextData: IChatContextData, messages: IMessage[]): Promise<void> {
+    // Add one step to the inbound pipeline, which runs in the registration order for all messages and events of all chat tools.
+    // Return the disposer function to remove the step.
+    use(fn: IInboundMiddlewareFunction): IDisposerFunction {
+        this.inboundMiddlewares.push(fn);
+
+        return () => {
+            const index = this.inboundMiddlewares.indexOf(fn);
+            if (index !== -1) {
+                this.inboundMiddlewares.splice(index, 1);
+            }
+        };
+    }
+
+    // Run the inbound pipeline, and call the final function if all steps call next()
+    //  - return false if the message or event is dropped by one step
+    //  - messages and events are dropped when the bot is stopping or stopped, and the running ones are tracked to be drained by stop()
+    async runInboundMiddlewares(chatContextData: IChatContextData, final: INextFunction): Promise<boolean> {
+        if (!this.isAccepting()) {
+            logger.warn(`The message or event is dropped since the bot is ${this.state}`);
+            return false;
+        }
+
+        const steps = [...this.inboundMiddlewares];
+        let index = -1;
+        let completed = false;
+        const dispatch = async (i: number): Promise<void> => {
+            if (i <= index) {
+                throw new Error(`next() is called multiple times`);
+            }
+            index = i;
+
+            if (i === steps.length) {
+                completed = true;
+                await final();
+            } else {
+                await steps[i](chatContextData, () => dispatch(i + 1));
+            }
+        };
+
+        const task = dispatch(0);
+        this.trackTask(task);
+        await task;
+        if (!completed) {
+            logger.debug('The message or event is dropped by the inbound pipeline');
+        }
+
+        return completed;
+    }
+
+    // Track the task until it settles, so it's drained by stop(), e.g. a message handler that keeps running after it times out
+    trackTask(task: Promise<unknown>): void {
+        const trackedTask = task.then(() => undefined, () => undefined);
+        this.inFlightTasks.add(trackedTask);
+        trackedTask.then(() => this.inFlightTasks.delete(trackedTask));
+    }
+
+    // Add one outbound interceptor, which runs in the registration order before messages of all chat tools are sent.
+    // Return the disposer function to remove the interceptor.
+    intercept(fn: IOutboundInterceptorFunction): IDisposerFunction {
+        this.outboundInterceptors.push(fn);
+
+        return () => {
+            const index = this.outboundInterceptors.indexOf(fn);
+            if (index !== -1) {
+                this.outboundInterceptors.splice(index, 1);
+            }
+        };
+    }
+
+    // Set the hook called when message handlers or route handlers throw errors
+    onError(handler: IErrorHandlerFunction): void {
+        this.errorHandler = handler;
+    }
+
+    // Handle the error thrown by message handlers or route handlers
+    async handleError(err: Error, chatContextData: IChatContextData): Promise<void> {
+        // Print start log
+        logger.start(this.handleError, this);
+
+        try {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            this.emit('handlerError', err, chatContextData);
+
+            // Call error hook
+            if (this.errorHandler !== null) {
+                await this.errorHandler(err, chatContextData);
+            }
+        } catch (error) {
+            // Print exception stack
+            logger.error(`Failed to call the error hook!`);
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+        } finally {
+            // Print end log
+            logger.end(this.handleError, this);
+        }
+    }
+
+    // Handle the message that is not matched by any listener, unknown commands will get suggestions if commands are registered.
+    async handleUnmatchedMessage(chatContextData: IChatContextData): Promise<void> {
+        // Print start log
+        logger.start(this.handleUnmatchedMessage, this);
+
+        try {
+            await this.commandRegistry.processUnknownCommand(chatContextData);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+        } finally {
+            // Print end log
+            logger.end(this.handleUnmatchedMessage, this);
+        }
+    }
+
+    // Send message to channel, the messages could be rewritten or vetoed by the outbound interceptors
+    //  - option: where to reply, in the thread of the received message, in the channel or as a new thread
+    //  - return one delivery result for each message that is sent, or an empty array if the messages are vetoed
+    async send(chatContextData: IChatContextData, messages: IMessage[], option?: ISendOption): Promise<ISendResult[]> {
         // Print start log
         logger.start(this.send, this);
 
+        let outboundMessages = messages;
+        let results: ISendResult[] = [];
         try {
-            await this.middleware.send(chatContextData, messages);
+            // Find the middleware of the chat tool where the message comes from
+            const middleware = this.getMiddleware(chatContextData.context.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${chatContextData.context.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            // Run outbound interceptors
+            const target: IOutboundTarget = {
+                'chatToolType': middleware.getChatTool().type,
+                'channel': chatContextData.context.chatting.channel,
+            };
+            for (const interceptor of [...this.outboundInterceptors]) {
+                outboundMessages = await interceptor(chatContextData, outboundMessages, target);
+                if (outboundMessages === undefined || outboundMessages === null || outboundMessages.length === 0) {
+                    logger.info(`Messages are vetoed by the outbound interceptor`);
+                    return [];
+                }
+            }
+
+            results = await middleware.send(chatContextData, outboundMessages, option);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            results = outboundMessages.map((message) => Middleware.createFailedSendResult(message, err));
         } finally {
             // Print end log
             logger.end(this.send, this);
         }
+
+        // Notify the failures
+        for (const result of results) {
+            if (!result.success) {
+                const error = new Error(result.error.message);
+                error.name = result.error.name;
+                this.emit('sendFailed', error, chatContextData, [result.message]);
+            }
+        }
+
+        return results;
+    }
+
+    // Replace the content of one sent message, e.g. replace "Working..." with the result of a long-running operation
+    //  - messageRef: the message reference returned by send()
+    //  - return one delivery result for each message, all results share the reference of the updated message
+    async update(messageRef: IMessageRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.update, this);
+
+        try {
+            const middleware = this.getMiddleware(messageRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${messageRef.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            return await middleware.update(messageRef, messages);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((message) => Middleware.createFailedSendResult(message, err));
+        } finally {
+            // Print end log
+            logger.end(this.update, this);
+        }
+    }
+
+    // Delete one sent message
+    //  - messageRef: the message reference returned by send()
+    //  - return true if the message is deleted
+    async delete(messageRef: IMessageRef): Promise<boolean> {
+        // Print start log
+        logger.start(this.delete, this);
+
+        try {
+            const middleware = this.getMiddleware(messageRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${messageRef.chatToolType}`);
+                return false;
+            }
+
+            return await middleware.delete(messageRef);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.delete, this);
+        }
+    }
+
+    // Add an emoji reaction to one message, e.g. acknowledge a command with :eyes: while working
+    //  - messageRef: the message reference returned by send(), or chatContextData.context.chatting.messageRef of the received message
+    //  - emoji: the emoji name with or without colons, or the unicode character
+    //  - return true if the reaction is added
+    async addReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.addReaction, this);
+
+        try {
+            const middleware = this.getMiddleware(messageRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${messageRef.chatToolType}`);
+                return false;
+            }
+
+            return await middleware.addReaction(messageRef, emoji);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Remove an emoji reaction added by the bot from one message
+    //  - return true if the reaction is removed
+    async removeReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.removeReaction, this);
+
+        try {
+            const middleware = this.getMiddleware(messageRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${messageRef.chatToolType}`);
+                return false;
+            }
+
+            return await middleware.removeReaction(messageRef, emoji);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Send proactive direct messages to the user, e.g. to notify the job completion.
+    // The messages are sent via send(), so the outbound interceptors are run and the failures are notified too.
+    //  - userRef: the ID, username or email of the user, and the chat tool type if more than one chat tool is configured
+    async sendDirect(userRef: IUserRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.sendDirect, this);
+
+        let chatContextData: IChatContextData = null;
+        try {
+            const middleware = this.getMiddleware(userRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${userRef.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            chatContextData = await middleware.getDirectChatContext(userRef);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((message) => Middleware.createFailedSendResult(message, err));
+        } finally {
+            // Print end log
+            logger.end(this.sendDirect, this);
+        }
+
+        return await this.send(chatContextData, messages);
+    }
+
+    // Get the channels that the bot can see
+    async getChannels(chatToolType?: IChatToolType): Promise<IChannel[]> {
+        // Print start log
+        logger.start(this.getChannels, this);
+
+        try {
+            const middleware = this.getMiddleware(chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${chatToolType}`);
+                return [];
+            }
+
+            return await middleware.getChannels();
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Find the channel by ID or name, null is returned if the channel is not found.
+    async findChannel(channelRef: IChannelRef): Promise<IChannel> {
+        // Print start log
+        logger.start(this.findChannel, this);
+
+        try {
+            const middleware = this.getMiddleware(channelRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${channelRef.chatToolType}`);
+                return null;
+            }
+
+            return await middleware.findChannel(channelRef);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findChannel, this);
+        }
+    }
+
+    // Create the channel and invite the members.
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support creating channels, e.g. MS Teams.
+    async createChannel(option: IChannelOption): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.createChannel, this);
+
+        try {
+            const middleware = this.getMiddleware(option.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${option.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            return await middleware.createChannel(option);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Invite the users to the channel, the channel given by name is found first.
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support inviting users, e.g. MS Teams.
+    async inviteToChannel(channelRef: IChannelRef, userIds: string[]): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.inviteToChannel, this);
+
+        try {
+            const middleware = this.getMiddleware(channelRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${channelRef.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            const channelId = await this.getChannelId(middleware, channelRef);
+            return await middleware.inviteToChannel(channelId, userIds);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.inviteToChannel, this);
+        }
+    }
+
+    // Archive the channel, the channel given by name is found first.
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support archiving channels, e.g. MS Teams.
+    async archiveChannel(channelRef: IChannelRef): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.archiveChannel, this);
+
+        try {
+            const middleware = this.getMiddleware(channelRef.chatToolType);
+            if (middleware === null) {
+                logger.error(`No middleware found for the chat tool: ${channelRef.chatToolType}`);
+                throw new Error(`No middleware found for the chat tool`);
+            }
+
+            const channelId = await this.getChannelId(middleware, channelRef);
+            return await middleware.archiveChannel(channelId);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
+    // Get the channel ID, the channel is found by name if the ID is not given
+    private async getChannelId(middleware: Middleware, channelRef: IChannelRef): Promise<string> {
+        if (channelRef.id !== undefined && channelRef.id !== null && channelRef.id !== '') {
+            return channelRef.id;
+        }
+
+        const channel = await middleware.findChannel(channelRef);
+        if (channel === null) {
+            logger.error(`The channel is not found: ${JSON.stringify(channelRef)}`);
+            throw new Error('The channel is not found');
+        }
+
+        return channel.id;
+    }
+
+    // Mount the liveness and readiness endpoints on the messaging app if they are enabled
+    private mountHealthEndpoints(): void {
+        const healthOption = this.option.health;
+        if (healthOption === undefined || healthOption === null || healthOption.enabled !== true) {
+            return;
+        }
+        if (this.option.messagingApp === undefined || this.option.messagingApp === null
+            || this.option.messagingApp.app === undefined || this.option.messagingApp.app === null) {
+            logger.error('Health endpoints could not be mounted since the messaging app is not provided.');
+            return;
+        }
+
+        const livenessPath = healthOption.livenessPath !== undefined && healthOption.livenessPath !== null ? healthOption.livenessPath : '/healthz';
+        const readinessPath = healthOption.readinessPath !== undefined && healthOption.readinessPath !== null ? healthOption.readinessPath : '/readyz';
+        logger.info(`Mounting health endpoints: ${livenessPath} ${readinessPath}`);
+
+        // The process is alive unless the bot is stopped
+        this.option.messagingApp.app.get(livenessPath, (req: Request, res: Response) => {
+            const alive = this.state !== IBotState.STOPPED;
+            res.status(alive ? 200 : 503).json({ 'status': alive ? 'ok' : 'stopped', 'state': this.state });
+        });
+
+        // Ready to serve only if the bot is running and all chat tools are ready
+        this.option.messagingApp.app.get(readinessPath, (req: Request, res: Response) => {
+            const health = this.getHealth();
+            res.status(health.ready ? 200 : 503).json(health);
+        });
+    }
+
+    // Get the timeout of start or stop
+    private getLifecycleTimeout(option?: ILifecycleOption): number {
+        if (option !== undefined && option !== null && option.timeout !== undefined && option.timeout !== null && option.timeout >= 0) {
+            return option.timeout;
+        }
+
+        return DEFAULT_LIFECYCLE_TIMEOUT;
+    }
+
+    // Get the registered adapter for the chat tool
+    private loadAdapter(chatTool: IChatTool): IChatToolAdapter {
+        const adapter = CommonBot.getAdapter(chatTool.type);
+        if (adapter === null) {
+            logger.error(`Unsupported chat tool: ${chatTool.type}`);
+            throw new Error(`Unsupported chat tool`);
+        }
+
+        return adapter;
+    }
+
+    // Create the middleware for the chat tool if it has not been created, it's run by start()
+    private createMiddleware(chatTool: IChatTool, adapter: IChatToolAdapter): void {
+        if (this.middlewares.has(chatTool.type)) {
+            return;
+        }
+
+        logger.info(`Creating middleware for ${chatTool.type} ...`);
+        const middleware = new adapter.Middleware(this, chatTool);
+        this.setMiddleware(middleware);
     }
 }
+
+// Register built-in adapters
+CommonBot.registerAdapter(IChatToolType.MATTERMOST, {
+    Listener: MattermostListener,
+    Router: MattermostRouter,
+    Middleware: MattermostMiddleware,
+    BotLimit: MattermostBotLimit,
+});
+CommonBot.registerAdapter(IChatToolType.SLACK, {
+    Listener: SlackListener,
+    Router: SlackRouter,
+    Middleware: SlackMiddleware,
+    BotLimit: SlackBotLimit,
+});
+CommonBot.registerAdapter(IChatToolType.MSTEAMS, {
+    Listener: MsteamsListener,
+    Router: MsteamsRouter,
+    Middleware: MsteamsMiddleware,
+    BotLimit: MsteamsBotLimit,
+});
@@ -8,7 +8,7 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import type { IMessageHandlerFunction, IMessageMatcherFunction } from './types';
+import type { IChatTool, IChatToolType, IListenerOption, IMessageHandlerFunction, IMessageMatcherFunction } from './types';
 
 import { CommonBot } from './CommonBot';
 import { Logger } from './utils/Logger';
@@ -17,11 +17,13 @@ import { MessageMatcher } from './MessageMatcher';
 const logger = Logger.getInstance();
 export class Listener {
     protected bot: CommonBot;
+    protected chatTool: IChatTool;
     protected messageMatcher: MessageMatcher;
 
     // Constructor
-    constructor(bot: CommonBot) {
+    constructor(bot: CommonBot, chatTool: IChatTool) {
         this.bot = bot;
+        this.chatTool = chatTool;
         this.messageMatcher = new MessageMatcher();
 
         this.listen = this.listen.bind(this);
@@ -29,7 +31,7 @@ export class Listener {
 
     // Run listener
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction): Promise<void> {
+    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction, option?: IListenerOption): Promise<void> {
         // Print start log
         logger.start(this.listen, this);
 
@@ -44,6 +46,11 @@ export class Listener {
         }
     }
 
+    // Get chat tool type
+    getChatToolType(): IChatToolType {
+        return this.chatTool.type;
+    }
+
     // Get message matcher
     getMessageMatcher(): MessageMatcher {
         return this.messageMatcher;
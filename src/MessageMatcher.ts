@@ -19,7 +19,7 @@ export class MessageMatcher {
     }
 
     // Add message matcher
-    addMatcher(messageMatcher: IMessageMatcherFunction, messageHandler: IMessageHandlerFunction): void {
+    addMatcher(messageMatcher: IMessageMatcherFunction, messageHandler: IMessageHandlerFunction, priority: number = 0): void {
         // // Print start log
         // logger.start(this.addMatcher, this);
 
@@ -27,6 +27,7 @@ export class MessageMatcher {
         const matcher: IMessageMatcher = {
             matcher: messageMatcher,
             handlers: [],
+            priority: priority,
         };
         matcher.handlers.push(messageHandler);
 
@@ -82,9 +83,11 @@ export class MessageMatcher {
             const matcher: IMessageMatcher = {
                 matcher: messageMatcher,
                 handlers: [],
+                priority: 0,
             };
 
             // Add matcher along with handler
+            matcher.handlers.push(messageHandler);
             this.matchers.push(matcher);
         } else {
             // Add handler
@@ -92,6 +95,38 @@ export class MessageMatcher {
         }
     }
 
+    // Remove message matcher along with its handlers
+    removeMatcher(messageMatcher: IMessageMatcherFunction): boolean {
+        const index = this.indexOfMatcher(messageMatcher);
+        if (index === -1) {
+            return false;
+        }
+
+        this.matchers.splice(index, 1);
+        return true;
+    }
+
+    // Remove message handler from all matchers
+    //  - the matcher will be removed too if it has no handlers left
+    removeHandler(messageHandler: IMessageHandlerFunction): boolean {
+        let removed = false;
+        for (let i = this.matchers.length - 1; i >= 0; i--) {
+            const handlers = this.matchers[i].handlers;
+            for (let j = handlers.length - 1; j >= 0; j--) {
+                if (handlers[j] === messageHandler) {
+                    handlers.splice(j, 1);
+                    removed = true;
+                }
+            }
+
+            if (handlers.length === 0) {
+                this.matchers.splice(i, 1);
+            }
+        }
+
+        return removed;
+    }
+
     // Check whether one handler exists or not
     hasHandler(messageHandler: IMessageHandlerFunction): boolean {
         // // Print start log
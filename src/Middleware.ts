@@ -8,17 +8,31 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import type { IChatContextData, IMessage } from './types';
+import { IChannel, IChannelOption, IChannelRef, IChannelResult, IChatContextData, IChatTool, IChattingType, ICommandHelp, IConnectionEvent,
+    IConnectionEventName, IConnectionStatus, IChatToolHealth, IErrorCode, IHandlerExecutionOption, IMessage, IMessageDispatchMode, IMessageHandlerFunction,
+    IMessageHandlerResult, IMessageMatcher, IMessageRef, IMessageType, IPayloadType, IReplyMode, ISendError, ISendOption, ISendResult, IUser,
+    IUserRef } from './types';
 import { CommonBot } from './CommonBot';
 import { Logger } from './utils/Logger';
 
 const logger = Logger.getInstance();
+const DEFAULT_TYPING_INTERVAL = 3000;
+
 export class Middleware {
     protected bot: CommonBot;
+    protected chatTool: IChatTool;
+    protected connectionStatus: IConnectionStatus;
 
     // Constructor
-    constructor(bot: CommonBot) {
+    constructor(bot: CommonBot, chatTool: IChatTool) {
         this.bot = bot;
+        this.chatTool = chatTool;
+        this.connectionStatus = IConnectionStatus.NOT_CONNECTED;
+    }
+
+    // Get chat tool
+    getChatTool(): IChatTool {
+        return this.chatTool;
     }
 
     // Run middleware
@@ -37,20 +51,626 @@ export class Middleware {
         }
     }
 
+    // Stop middleware, e.g. close the connection to the chat tool
+    async stop(): Promise<void> {
+        // Print start log
+        logger.start(this.stop, this);
+
+        try {
+            logger.debug('Stop in base middleware');
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
+
+    // Get the health of the chat tool
+    getHealth(): IChatToolHealth {
+        return {
+            'chatToolType': this.chatTool.type,
+            'ready': this.isReady(),
+            'status': this.connectionStatus,
+        };
+    }
+
+    // Emit the connection event of the chat tool, the connection status is updated as well
+    emitConnectionEvent(event: IConnectionEventName, status: IConnectionStatus, reason?: string, attempt?: number): void {
+        const connectionEvent: IConnectionEvent = {
+            'chatToolType': this.chatTool.type,
+            'status': status,
+        };
+        if (reason !== undefined && reason !== null) {
+            connectionEvent.reason = reason;
+        }
+        if (attempt !== undefined && attempt !== null) {
+            connectionEvent.attempt = attempt;
+        }
+
+        this.connectionStatus = status;
+        logger.info(`Chat tool ${this.chatTool.type} is ${event}${reason !== undefined && reason !== null ? `: ${reason}` : ''}`);
+        this.bot.emit(event, connectionEvent);
+    }
+
+    // Check whether the chat tool is ready to receive and send messages
+    isReady(): boolean {
+        return true;
+    }
+
+    // Create the messages to show command help, plain text is used by default.
+    // Chat tool middlewares can override it to render the help in their native rich format.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    createHelpMessages(chatContextData: IChatContextData, help: ICommandHelp): IMessage[] {
+        const lines: string[] = [`**${help.title}**`];
+        if (help.description !== undefined && help.description !== null && help.description !== '') {
+            lines.push(help.description);
+        }
+        for (const item of help.items) {
+            lines.push(item.description === '' ? `- \`${item.name}\`` : `- \`${item.name}\`: ${item.description}`);
+        }
+        if (help.footer !== undefined && help.footer !== null && help.footer !== '') {
+            lines.push(help.footer);
+        }
+
+        return [{
+            'type': IMessageType.PLAIN_TEXT,
+            'message': lines.join('\n'),
+        }];
+    }
+
+    // Dispatch message to the handlers of matched matchers
+    //  - the inbound pipeline of the bot runs first, and the message could be dropped by it
+    //  - matchers of all listeners for the chat tool are matched in the order of priority
+    //  - dispatch will be stopped if one handler returns IMessageHandlerResult.STOP
+    //  - only handlers of the first matched matcher will be called if the dispatch mode is IMessageDispatchMode.FIRST_MATCH
+    //  - handlers will be called concurrently if it's enabled in the handler execution option
+    //  - the bot will process the message if it's not matched by any matcher
+    async dispatchMessage(chatContextData: IChatContextData): Promise<void> {
+        // Print start log
+        logger.start(this.dispatchMessage, this);
+
+        try {
+            // The message is dropped without the event once the bot is stopping
+            if (this.bot.isAccepting()) {
+                this.bot.emit('messageReceived', chatContextData);
+            }
+            await this.bot.runInboundMiddlewares(chatContextData, async () => {
+                await this.runMatchers(chatContextData);
+            });
+        } catch (err) {
+            await this.bot.handleError(err, chatContextData);
+        } finally {
+            // Print end log
+            logger.end(this.dispatchMessage, this);
+        }
+    }
+
+    // Match the message and call the handlers of matched matchers
+    private async runMatchers(chatContextData: IChatContextData): Promise<void> {
+        // Print start log
+        logger.start(this.runMatchers, this);
+
+        let stopTypingIndicator: () => Promise<void> = null;
+        try {
+            // Get matchers of all listeners
+            const matchers: IMessageMatcher[] = [];
+            for (const listener of this.bot.getListeners(this.chatTool.type)) {
+                matchers.push(...listener.getMessageMatcher().getMatchers());
+            }
+
+            // Sort matchers by priority, the registration order is kept for matchers with the same priority
+            matchers.sort((a, b) => b.priority - a.priority);
+
+            // Match and process message
+            const firstMatchOnly = (this.bot.getOption().messageDispatchMode === IMessageDispatchMode.FIRST_MATCH);
+            const executionOption = this.getHandlerExecutionOption();
+            let matchedAny = false;
+            if (executionOption.concurrent) {
+                // Get handlers of matched matchers
+                const handlers: IMessageHandlerFunction[] = [];
+                for (const matcher of matchers) {
+                    const matched: boolean = matcher.matcher(chatContextData);
+                    if (matched) {
+                        matchedAny = true;
+                        stopTypingIndicator = stopTypingIndicator || this.startTypingIndicator(chatContextData, executionOption);
+                        handlers.push(...matcher.handlers);
+
+                        if (firstMatchOnly) {
+                            break;
+                        }
+                    }
+                }
+
+                // Call message handlers concurrently
+                await this.runHandlersConcurrently(handlers, chatContextData, executionOption);
+            } else {
+                for (const matcher of matchers) {
+                    const matched: boolean = matcher.matcher(chatContextData);
+                    if (matched) {
+                        matchedAny = true;
+                        stopTypingIndicator = stopTypingIndicator || this.startTypingIndicator(chatContextData, executionOption);
+
+                        // Call message handler to process message
+                        for (const handler of matcher.handlers) {
+                            const stopped = await this.runHandler(handler, chatContextData, executionOption.timeout);
+                            if (stopped) {
+                                logger.debug('Message dispatch is stopped by the handler');
+                                return;
+                            }
+                        }
+
+                        if (firstMatchOnly) {
+                            return;
+                        }
+                    }
+                }
+            }
+
+            // Messages that are not matched by any matcher, e.g. unknown commands
+            if (!matchedAny) {
+                await this.bot.handleUnmatchedMessage(chatContextData);
+            }
+        } finally {
+            if (stopTypingIndicator !== null) {
+                await stopTypingIndicator();
+            }
+
+            // Print end log
+            logger.end(this.runMatchers, this);
+        }
+    }
+
+    // Start the typing indicator if it's enabled, and refresh it until the returned function is called to stop it
+    private startTypingIndicator(chatContextData: IChatContextData, option: IHandlerExecutionOption): () => Promise<void> {
+        if (!option.typingIndicator) {
+            return null;
+        }
+
+        const sendTyping = async (): Promise<void> => {
+            try {
+                await this.sendTyping(chatContextData);
+            } catch (err) {
+                // Print exception stack
+                logger.error(logger.getErrorStack(new Error(err.name), err));
+            }
+        };
+        let typing = sendTyping();
+        const timer = setInterval(() => {
+            typing = sendTyping();
+        }, option.typingInterval);
+
+        return async (): Promise<void> => {
+            clearInterval(timer);
+            try {
+                await typing;
+                await this.stopTyping(chatContextData);
+            } catch (err) {
+                // Print exception stack
+                logger.error(logger.getErrorStack(new Error(err.name), err));
+            }
+        };
+    }
+
+    // Get handler execution option along with default values
+    private getHandlerExecutionOption(): IHandlerExecutionOption {
+        const option = this.bot.getOption().handlerExecution;
+        const result: IHandlerExecutionOption = {
+            concurrent: false,
+            maxConcurrency: 0,
+            timeout: 0,
+            typingIndicator: false,
+            typingInterval: DEFAULT_TYPING_INTERVAL,
+        };
+
+        if (option !== undefined && option !== null) {
+            if (option.concurrent !== undefined && option.concurrent !== null) {
+                result.concurrent = option.concurrent;
+            }
+            if (option.maxConcurrency !== undefined && option.maxConcurrency !== null && option.maxConcurrency > 0) {
+                result.maxConcurrency = option.maxConcurrency;
+            }
+            if (option.timeout !== undefined && option.timeout !== null && option.timeout > 0) {
+                result.timeout = option.timeout;
+            }
+            if (option.typingIndicator !== undefined && option.typingIndicator !== null) {
+                result.typingIndicator = option.typingIndicator;
+            }
+            if (option.typingInterval !== undefined && option.typingInterval !== null && option.typingInterval > 0) {
+                result.typingInterval = option.typingInterval;
+            }
+        }
+
+        return result;
+    }
+
+    // Run handlers concurrently, at most maxConcurrency handlers will be running at the same time
+    //  - handlers not started yet will be skipped if one handler returns IMessageHandlerResult.STOP
+    private async runHandlersConcurrently(handlers: IMessageHandlerFunction[], chatContextData: IChatContextData,
+            option: IHandlerExecutionOption): Promise<void> {
+        let stopped = false;
+        let nextIndex = 0;
+        const runNextHandlers = async (): Promise<void> => {
+            while (stopped === false && nextIndex < handlers.length) {
+                const handler = handlers[nextIndex];
+                nextIndex++;
+
+                if (await this.runHandler(handler, chatContextData, option.timeout)) {
+                    logger.debug('Message dispatch is stopped by the handler');
+                    stopped = true;
+                }
+            }
+        };
+
+        // Start workers
+        let workerNumber = handlers.length;
+        if (option.maxConcurrency > 0 && option.maxConcurrency < workerNumber) {
+            workerNumber = option.maxConcurrency;
+        }
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < workerNumber; i++) {
+            workers.push(runNextHandlers());
+        }
+
+        await Promise.all(workers);
+    }
+
+    // Run handler in its own error boundary, so the failure will not affect the rest handlers
+    //  - return: true if the handler asks to stop the dispatch
+    private async runHandler(handler: IMessageHandlerFunction, chatContextData: IChatContextData, timeout: number): Promise<boolean> {
+        let timer: NodeJS.Timeout = null;
+        try {
+            let result: void | IMessageHandlerResult = null;
+            if (timeout > 0) {
+                // The handler could not be stopped, so it's asked to stop via the abort signal once it times out,
+                // and it's tracked until it settles, so stop() still waits for it.
+                const controller = new AbortController();
+                const task = handler({ ...chatContextData, 'signal': controller.signal });
+                this.bot.trackTask(task);
+                const timeoutPromise = new Promise<never>((resolve, reject) => {
+                    timer = setTimeout(() => {
+                        const error = new Error(`The message handler "${handler.name}" timed out after ${timeout} milliseconds`);
+                        error.name = 'TimeoutError';
+                        controller.abort(error);
+                        reject(error);
+                    }, timeout);
+                });
+                result = await Promise.race([task, timeoutPromise]);
+            } else {
+                result = await handler(chatContextData);
+            }
+
+            return (result === IMessageHandlerResult.STOP);
+        } catch (err) {
+            await this.bot.handleError(err, chatContextData);
+            return false;
+        } finally {
+            if (timer !== null) {
+                clearTimeout(timer);
+            }
+        }
+    }
+
     // Send message back to channel
+    //  - option: the reply mode, which should be honored by the chat tool middlewares
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    async send(chatContextData: IChatContextData, messages: IMessage[]): Promise<void> {
+    async send(chatContextData: IChatContextData, messages: IMessage[], option?: ISendOption): Promise<ISendResult[]> {
         // Print start log
         logger.start(this.send, this);
 
         try {
             logger.debug('Send in base middleware');
-        } catch (err) {
-            // Print exception stack
-            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((message) => Middleware.createFailedSendResult(message, new Error('Sending messages is not supported')));
         } finally {
             // Print end log
             logger.end(this.send, this);
         }
     }
+
+    // Show the typing indicator in the channel of the received message, it's refreshed periodically while handlers are running
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async sendTyping(chatContextData: IChatContextData): Promise<void> {
+        logger.debug('Typing indicator is not supported in base middleware');
+    }
+
+    // Clear the typing indicator after handlers settle, only needed if the indicator doesn't expire by itself
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async stopTyping(chatContextData: IChatContextData): Promise<void> {
+        logger.debug('Stop typing in base middleware');
+    }
+
+    // Get the ID of the thread root to reply in, empty string is returned if the messages should be posted to the channel
+    //  - the thread of the received message is used by default
+    //  - a new thread is started under the received message if the reply mode is IReplyMode.THREAD and it's not in a thread
+    getReplyThreadId(chatContextData: IChatContextData, option?: ISendOption): string {
+        const chatting = chatContextData.context.chatting;
+        const threadId = chatting.threadId !== undefined && chatting.threadId !== null ? chatting.threadId : '';
+        const replyMode = option !== undefined && option !== null ? option.replyMode : undefined;
+        if (replyMode === undefined || replyMode === null) {
+            return threadId;
+        } else if (replyMode === IReplyMode.THREAD) {
+            if (threadId === '' && chatting.messageRef !== undefined && chatting.messageRef !== null) {
+                return chatting.messageRef.id;
+            }
+            return threadId;
+        }
+
+        return '';
+    }
+
+    // Replace the content of one sent message, the messages are combined into the sent message
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async update(messageRef: IMessageRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.update, this);
+
+        try {
+            logger.debug('Update in base middleware');
+            return messages.map((message) => Middleware.createFailedSendResult(message, new Error('Updating messages is not supported')));
+        } finally {
+            // Print end log
+            logger.end(this.update, this);
+        }
+    }
+
+    // Delete one sent message, return true if it's deleted
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async delete(messageRef: IMessageRef): Promise<boolean> {
+        // Print start log
+        logger.start(this.delete, this);
+
+        try {
+            logger.error('Deleting messages is not supported');
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.delete, this);
+        }
+    }
+
+    // Add an emoji reaction to one message, return true if it's added
+    //  - emoji: the emoji name with or without colons, or the unicode character, e.g. ":eyes:", "eyes" or "👀"
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async addReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.addReaction, this);
+
+        try {
+            logger.error('Adding reactions is not supported');
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Remove an emoji reaction added by the bot from one message, return true if it's removed
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async removeReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.removeReaction, this);
+
+        try {
+            logger.error('Removing reactions is not supported');
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Find the user by ID, username or email, null is returned if the user is not found.
+    async findUser(userRef: IUserRef): Promise<IUser> {
+        // Print start log
+        logger.start(this.findUser, this);
+
+        try {
+            logger.error(`Finding users is not supported, failed to find the user: ${JSON.stringify(userRef)}`);
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findUser, this);
+        }
+    }
+
+    // Get the members of the channel
+    async getChannelMembers(channelId: string): Promise<IUser[]> {
+        // Print start log
+        logger.start(this.getChannelMembers, this);
+
+        try {
+            logger.error(`Listing channel members is not supported, failed to list the members of the channel ${channelId}`);
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannelMembers, this);
+        }
+    }
+
+    // Get the channels that the bot can see
+    async getChannels(): Promise<IChannel[]> {
+        // Print start log
+        logger.start(this.getChannels, this);
+
+        try {
+            logger.error('Listing channels is not supported');
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Find the channel by ID or name, null is returned if the channel is not found.
+    async findChannel(channelRef: IChannelRef): Promise<IChannel> {
+        // Print start log
+        logger.start(this.findChannel, this);
+
+        try {
+            logger.error(`Finding channels is not supported, failed to find the channel: ${JSON.stringify(channelRef)}`);
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findChannel, this);
+        }
+    }
+
+    // Create the channel and invite the members.
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support creating channels.
+    async createChannel(option: IChannelOption): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.createChannel, this);
+
+        try {
+            logger.error(`Creating channels is not supported, failed to create the channel ${option.name}`);
+            return Middleware.createNotSupportedChannelResult('Creating channels');
+        } finally {
+            // Print end log
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Invite the users to the channel, the users who are members already are ignored.
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support inviting users.
+    async inviteToChannel(channelId: string, userIds: string[]): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.inviteToChannel, this);
+
+        try {
+            logger.error(`Inviting users is not supported, failed to invite ${userIds.length} users to the channel ${channelId}`);
+            return Middleware.createNotSupportedChannelResult('Inviting users to channels');
+        } finally {
+            // Print end log
+            logger.end(this.inviteToChannel, this);
+        }
+    }
+
+    // Archive the channel
+    // The result error code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support archiving channels.
+    async archiveChannel(channelId: string): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.archiveChannel, this);
+
+        try {
+            logger.error(`Archiving channels is not supported, failed to archive the channel ${channelId}`);
+            return Middleware.createNotSupportedChannelResult('Archiving channels');
+        } finally {
+            // Print end log
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
+    // Get the chat context data of the direct chat with the user, which is used to send proactive direct messages.
+    // The direct chat is created if it doesn't exist.
+    async getDirectChatContext(userRef: IUserRef): Promise<IChatContextData> {
+        // Print start log
+        logger.start(this.getDirectChatContext, this);
+
+        try {
+            logger.error(`Direct messages are not supported, failed to send to the user: ${JSON.stringify(userRef)}`);
+            throw new Error('Direct messages are not supported');
+        } finally {
+            // Print end log
+            logger.end(this.getDirectChatContext, this);
+        }
+    }
+
+    // Create the chat context data of the direct chat with the user, there is no received message.
+    createDirectChatContext(user: IUser, channelId: string): IChatContextData {
+        return {
+            'payload': {
+                'type': IPayloadType.MESSAGE,
+                'data': '',
+            },
+            'context': {
+                'chatting': {
+                    'bot': this.bot,
+                    'type': IChattingType.PERSONAL,
+                    'user': user,
+                    'channel': {
+                        'id': channelId,
+                        'name': '',
+                    },
+                    'team': {
+                        'id': '',
+                        'name': '',
+                    },
+                    'tenant': {
+                        'id': '',
+                        'name': '',
+                    },
+                },
+                'chatTool': null,
+                'chatToolType': this.chatTool.type,
+            },
+        };
+    }
+
+    // Create the result of one message that is sent successfully
+    static createSendResult(message: IMessage, ref?: IMessageRef): ISendResult {
+        const result: ISendResult = {
+            'message': message,
+            'success': true,
+        };
+        if (ref !== undefined && ref !== null) {
+            result.ref = ref;
+        }
+
+        return result;
+    }
+
+    // Create the result of one message that failed to be sent
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static createFailedSendResult(message: IMessage, err: any): ISendResult {
+        return {
+            'message': message,
+            'success': false,
+            'error': Middleware.createSendError(err),
+        };
+    }
+
+    // Create the result of one channel operation that succeeded
+    static createChannelResult(channel?: IChannel): IChannelResult {
+        const result: IChannelResult = {
+            'success': true,
+        };
+        if (channel !== undefined && channel !== null) {
+            result.channel = channel;
+        }
+
+        return result;
+    }
+
+    // Create the result of one channel operation that failed
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static createFailedChannelResult(err: any): IChannelResult {
+        return {
+            'success': false,
+            'error': Middleware.createSendError(err),
+        };
+    }
+
+    // Create the result of one channel operation that the chat tool doesn't support
+    static createNotSupportedChannelResult(operation: string): IChannelResult {
+        return Middleware.createFailedChannelResult({
+            'name': 'NotSupportedError',
+            'message': `${operation} is not supported by the chat tool`,
+            'code': IErrorCode.NOT_SUPPORTED,
+        });
+    }
+
+    // Create the error of one failed operation
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private static createSendError(err: any): ISendError {
+        const error: ISendError = {
+            'name': err !== undefined && err !== null && err.name !== undefined ? err.name : 'Error',
+            'message': err !== undefined && err !== null && err.message !== undefined ? err.message : String(err),
+        };
+        if (err !== undefined && err !== null) {
+            const code = err.status !== undefined ? err.status : (err.statusCode !== undefined ? err.statusCode : err.code);
+            if (code !== undefined && code !== null) {
+                error.code = code;
+            }
+        }
+
+        return error;
+    }
 }
@@ -9,7 +9,7 @@
 */
 
 
-import { IRoute, IRouteHandlerFunction } from './types';
+import { IChatContextData, IChatTool, IChatToolType, IEvent, IPayloadType, IRoute, IRouteHandlerFunction, IRouteOption } from './types';
 
 import { CommonBot } from './CommonBot';
 import { Logger } from './utils/Logger';
@@ -17,21 +17,26 @@ import { Logger } from './utils/Logger';
 const logger = Logger.getInstance();
 export class Router {
     protected bot: CommonBot;
-    protected router: IRoute;
+    protected chatTool: IChatTool;
+    protected routes: IRoute[]; // Routes with pluginId or actionId
+    protected router: IRoute; // Fallback route
 
     // Constructor
-    constructor(bot: CommonBot) {
+    constructor(bot: CommonBot, chatTool: IChatTool) {
         this.bot = bot;
+        this.chatTool = chatTool;
 
+        this.routes = [];
         this.router = null;
 
         // Bind this pointer
         this.route = this.route.bind(this);
+        this.dispatch = this.dispatch.bind(this);
     }
 
     // Run router
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    async route(basePath: string, handler: IRouteHandlerFunction): Promise<void> {
+    async route(basePath: string, handler: IRouteHandlerFunction, option?: IRouteOption): Promise<void> {
         // Print start log
         logger.start(this.route, this);
 
@@ -46,11 +51,21 @@ export class Router {
         }
     }
 
-    // Get router
+    // Get chat tool type
+    getChatToolType(): IChatToolType {
+        return this.chatTool.type;
+    }
+
+    // Get fallback route
     getRoute(): IRoute {
         return this.router;
     }
 
+    // Get routes with pluginId or actionId
+    getRoutes(): IRoute[] {
+        return this.routes;
+    }
+
     // Set webhook
     setRoute(path: string, handler: IRouteHandlerFunction): void {
         this.router = {
@@ -60,4 +75,93 @@ export class Router {
 
         return;
     }
+
+    // Add route
+    //  - the route will be the fallback route if neither pluginId nor actionId is set
+    addRoute(path: string, handler: IRouteHandlerFunction, option?: IRouteOption): void {
+        const route: IRoute = {
+            path: path,
+            handler: handler,
+        };
+        if (option !== undefined && option !== null) {
+            route.name = option.name;
+            route.pluginId = option.pluginId;
+            route.actionId = option.actionId;
+        }
+
+        if (this.isFallbackRoute(route)) {
+            this.router = route;
+        } else {
+            this.routes.push(route);
+        }
+
+        return;
+    }
+
+    // Find the route for the event
+    //  - the first matched route will be returned, fallback route will be returned if no route is matched
+    findRoute(event: IEvent): IRoute {
+        for (const route of this.routes) {
+            if (route.pluginId !== undefined && route.pluginId !== null && route.pluginId !== event.pluginId) {
+                continue;
+            }
+
+            if (route.actionId !== undefined && route.actionId !== null) {
+                if (route.actionId instanceof RegExp) {
+                    if (route.actionId.test(event.action.id) === false) {
+                        continue;
+                    }
+                } else if (route.actionId !== event.action.id) {
+                    continue;
+                }
+            }
+
+            return route;
+        }
+
+        return this.router;
+    }
+
+    // Dispatch the event to the matched route handler after the inbound pipeline
+    async dispatch(chatContextData: IChatContextData): Promise<void | Record<string, any>> { // eslint-disable-line @typescript-eslint/no-explicit-any
+        // Print start log
+        logger.start(this.dispatch, this);
+
+        try {
+            if (chatContextData.payload.type !== IPayloadType.EVENT) {
+                logger.error(`Only event could be dispatched to routes: ${chatContextData.payload.type}`);
+                return;
+            }
+            // The event is dropped without the bot event once the bot is stopping
+            if (this.bot.isAccepting()) {
+                this.bot.emit('actionReceived', chatContextData);
+            }
+
+            // Find the route after the inbound pipeline, since the event could be rewritten by the pipeline
+            let result: void | Record<string, any> = undefined; // eslint-disable-line @typescript-eslint/no-explicit-any
+            await this.bot.runInboundMiddlewares(chatContextData, async () => {
+                const event = <IEvent>chatContextData.payload.data;
+                const route = this.findRoute(event);
+                if (route === null) {
+                    logger.error(`No route found for the event: ${JSON.stringify(event)}`);
+                    return;
+                }
+                logger.debug(`Dispatch event to route "${route.name !== undefined ? route.name : route.path}": ${JSON.stringify(event)}`);
+
+                result = await route.handler(chatContextData);
+            });
+
+            return result;
+        } catch (err) {
+            await this.bot.handleError(err, chatContextData);
+        } finally {
+            // Print end log
+            logger.end(this.dispatch, this);
+        }
+    }
+
+    // Check whether the route is fallback route or not
+    private isFallbackRoute(route: IRoute): boolean {
+        return (route.pluginId === undefined || route.pluginId === null) && (route.actionId === undefined || route.actionId === null);
+    }
 }
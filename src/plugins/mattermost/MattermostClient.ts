@@ -8,7 +8,7 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IChannel, IChattingType, IMattermostOption, IProtocol, IUser, IConnectionStatus } from '../../types';
+import { IChannel, IChattingType, IFile, IMattermostOption, IProtocol, IUser, IConnectionStatus } from '../../types';
 import type { SuperAgentRequest } from 'superagent';
 
 import WebSocket from 'ws';
@@ -19,6 +19,7 @@ import { Util } from '../../utils/Util';
 import { MattermostMiddleware } from './MattermostMiddleware';
 
 const logger = Logger.getInstance();
+const USER_PAGE_SIZE = 200; // Maximum number of users per page of Mattermost API
 
 export class MattermostClient {
     private rejectUnauthorized: boolean = false;
@@ -32,8 +33,11 @@ export class MattermostClient {
     private reconnectCount: number;
     private lastPongTime: number;
     private pongTimer: NodeJS.Timer;
+    private reconnectTimer: ReturnType<typeof setTimeout>;
     private connectionStatus: IConnectionStatus;
     private mattermostServerBaseUrl: string;
+    private seq: number; // Sequence number of the messages sent through the WebSocket
+    private connectionId: number; // Increased by every connect() and disconnect(), so a connect() superseded by them stops
 
     constructor(middleware: MattermostMiddleware, option: IMattermostOption) {
         this.middleware = middleware;
@@ -42,7 +46,10 @@ export class MattermostClient {
         this.teamId = null;
         this.lastPongTime = null;
         this.pongTimer = null;
+        this.reconnectTimer = null;
         this.reconnectCount = 0;
+        this.seq = 1;
+        this.connectionId = 0;
 
         this.connectionStatus = IConnectionStatus.NOT_CONNECTED;
         this.mattermostServerBaseUrl = `${this.option.protocol}://${this.option.hostName}:${this.option.port}${this.option.basePath}`;
@@ -67,10 +74,16 @@ export class MattermostClient {
                 return;
             }
             this.connectionStatus = IConnectionStatus.CONNECTING;
+            this.autoReconnect = true;
+            this.connectionId += 1;
+            const connectionId = this.connectionId;
 
             // First, authenticate by Mattermost web service API.
             const response = await this.get(`${this.mattermostServerBaseUrl}/users/me`);
             logger.debug(Util.dumpResponse(response));
+            if (this.isSuperseded(connectionId)) {
+                return;
+            }
 
             if (response.statusCode === 200) {
                 this.middleware.updateBotUser({ id: response.body.id, name: response.body.username, email: '' });
@@ -78,6 +91,9 @@ export class MattermostClient {
 
                 // Get bot's Team id.
                 await this.getTeamId();
+                if (this.isSuperseded(connectionId)) {
+                    return;
+                }
 
                 // Second, connect the WebSocket and authenticate with an authentication challenge.
                 const options = { rejectUnauthorized: this.rejectUnauthorized };
@@ -116,6 +132,16 @@ export class MattermostClient {
         }
     }
 
+    // Check whether disconnect() or another connect() is called while connecting, the WebSocket should not be opened then.
+    private isSuperseded(connectionId: number): boolean {
+        if (connectionId !== this.connectionId) {
+            logger.info('The connection to Mattermost server is cancelled since the client is disconnected or connecting again.');
+            return true;
+        }
+
+        return false;
+    }
+
     // Reconnect to Mattermost server.
     private reconnect(): void {
         try {
@@ -131,16 +157,20 @@ export class MattermostClient {
                 this.pongTimer = null;
             }
 
+            // Remove the close listener to avoid reconnecting again when the old websocket is closed.
             if (this.ws !== null) {
+                this.ws.removeAllListeners('close');
                 this.ws.terminate();
                 this.ws = null;
             }
 
             this.reconnectCount += 1;
+            this.middleware.emitConnectionEvent('reconnecting', this.connectionStatus, null, this.reconnectCount);
             const reconnectTimeout = this.reconnectCount * 2000;
             logger.debug(`Reconnect to Mattermost server in ${reconnectTimeout/1000} seconds.`);
-            setTimeout(
+            this.reconnectTimer = setTimeout(
                     () => {
+                        this.reconnectTimer = null;
                         logger.debug('Trying to reconnect to Mattermost server.');
                         this.connect();
                     },
@@ -153,17 +183,29 @@ export class MattermostClient {
         }
     }
 
-    // Disconnect with Mattermost server.
+    // Disconnect with Mattermost server, it will not reconnect until connect() is called again.
     disconnect(): void {
         try {
-        // Clear the ping/pong timer.
+            this.autoReconnect = false;
+            this.connectionId += 1;
+            this.connectionStatus = IConnectionStatus.CLOSING;
+
+            // Clear the ping/pong timer and reconnect timer.
             if (this.pongTimer !== null) {
                 clearInterval(this.pongTimer as any);
                 this.pongTimer = null;
             }
+            if (this.reconnectTimer !== null) {
+                clearTimeout(this.reconnectTimer);
+                this.reconnectTimer = null;
+            }
             if (this.ws !== null) {
-                this.ws.terminate();
+                this.ws.removeAllListeners('close');
+                this.ws.close();
+                this.ws = null;
             }
+            this.connectionStatus = IConnectionStatus.CLOSED;
+            this.middleware.emitConnectionEvent('disconnected', this.connectionStatus, 'Disconnected by the bot');
         } catch (error) {
             logger.error(Util.dumpObject(error));
             // Print exception stack
@@ -171,14 +213,21 @@ export class MattermostClient {
         }
     }
 
+    // Get the status of the websocket connection
+    getConnectionStatus(): IConnectionStatus {
+        return this.connectionStatus;
+    }
+
     private onOpen(): void {
         try {
             logger.debug('On open event.');
 
             this.reconnectCount = 0; // Clear the reconnect count.
             this.connectionStatus = IConnectionStatus.ALIVE;
+            this.middleware.emitConnectionEvent('connected', this.connectionStatus);
+            this.seq = 1;
             const authenticationChallenge = {
-                seq: 1,
+                seq: this.seq,
                 action: 'authentication_challenge',
                 data: {
                     token: this.option.botAccessToken,
@@ -294,6 +343,7 @@ export class MattermostClient {
     private onClose(code: number, reason: string): void {
         logger.debug(`On event close, the code is ${code} and reason is ${reason}.`);
         this.connectionStatus = IConnectionStatus.CLOSED;
+        this.middleware.emitConnectionEvent('disconnected', this.connectionStatus, `${code} ${reason}`.trim());
 
         if (this.autoReconnect) { // The connection is closed, try to connect.
             this.reconnect();
@@ -306,8 +356,9 @@ export class MattermostClient {
     }
 
     // Send message to Mattermost channel, group or direct message through Mattermost web service Rest API posts.
+    // Return the created post, and throw error if the post failed to be created.
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    async sendMessage(message: Record<string, any>, channelId: string, rootId: string): Promise<void> {
+    async sendMessage(message: Record<string, any>, channelId: string, rootId: string): Promise<Record<string, any>> {
         logger.start(this.sendMessage, this);
 
         try {
@@ -324,20 +375,220 @@ export class MattermostClient {
                 if (message.props !== undefined) {
                     postObject.props = message.props;
                 }
+                if (message.file_ids !== undefined) {
+                    postObject.file_ids = message.file_ids;
+                }
             }
 
             logger.debug(`The postObject is ${Util.dumpObject(postObject)}`);
-            await this.post(`${this.mattermostServerBaseUrl}/posts`)
+            const response = await this.post(`${this.mattermostServerBaseUrl}/posts`)
                     .send(JSON.stringify(postObject));
+            return response.body;
         } catch (error) {
             logger.error(Util.dumpObject(error));
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
         } finally {
             logger.end(this.sendMessage, this);
         }
     }
 
+    // Upload the file to the channel, and return the file ID which can be attached to a post
+    async uploadFile(channelId: string, file: IFile): Promise<string> {
+        logger.start(this.uploadFile, this);
+
+        try {
+            const content = await Util.readContent(file.content);
+            const request = superagent.post(`${this.mattermostServerBaseUrl}/files`)
+                    .set('Authorization', `BEARER ${this.option.botAccessToken}`)
+                    .set('Accept', 'application/json')
+                    .field('channel_id', channelId)
+                    .attach('files', content, {
+                        filename: file.filename,
+                        contentType: file.contentType !== undefined ? file.contentType : 'application/octet-stream',
+                    });
+            if (this.option.protocol === 'https') {
+                request.ca(this.option.tlsCertificate);
+            }
+
+            const response = await request;
+            logger.debug(`The uploaded file info is ${Util.dumpObject(response.body)}`);
+            return response.body.file_infos[0].id;
+        } catch (error) {
+            logger.error(Util.dumpObject(error));
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.uploadFile, this);
+        }
+    }
+
+    // Get the info of the files attached to the post
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async getFileInfos(postId: string): Promise<Record<string, any>[]> {
+        logger.start(this.getFileInfos, this);
+
+        try {
+            const response = await this.get(`${this.mattermostServerBaseUrl}/posts/${postId}/files/info`);
+            if (response.statusCode !== 200) {
+                logger.error(`Failed to get the file info of the post ${postId}: ${response.statusMessage}`);
+                return [];
+            }
+
+            return response.body;
+        } finally {
+            logger.end(this.getFileInfos, this);
+        }
+    }
+
+    // Download the file content
+    async downloadFile(fileId: string): Promise<Buffer> {
+        logger.start(this.downloadFile, this);
+
+        try {
+            const request = superagent.get(`${this.mattermostServerBaseUrl}/files/${fileId}`)
+                    .set('Authorization', `BEARER ${this.option.botAccessToken}`)
+                    .responseType('blob');
+            if (this.option.protocol === 'https') {
+                request.ca(this.option.tlsCertificate);
+            }
+
+            const response = await request;
+            return response.body;
+        } catch (error) {
+            logger.error(Util.dumpObject(error));
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.downloadFile, this);
+        }
+    }
+
+    // Send message which is only visible to the user, and return the ephemeral post.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async sendEphemeralMessage(message: Record<string, any>, userId: string, channelId: string, rootId: string): Promise<Record<string, any>> {
+        logger.start(this.sendEphemeralMessage, this);
+
+        try {
+            const postObject: Record<string, any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
+                channel_id: channelId,
+                root_id: rootId,
+            };
+            if (typeof message === 'string') {
+                postObject.message = message;
+            } else {
+                postObject.message = message.message;
+                if (message.props !== undefined) {
+                    postObject.props = message.props;
+                }
+                if (message.file_ids !== undefined) {
+                    postObject.file_ids = message.file_ids;
+                }
+            }
+
+            logger.debug(`The ephemeral postObject is ${Util.dumpObject(postObject)}`);
+            const response = await this.post(`${this.mattermostServerBaseUrl}/posts/ephemeral`)
+                    .send(JSON.stringify({ user_id: userId, post: postObject }));
+            return response.body;
+        } catch (error) {
+            logger.error(Util.dumpObject(error));
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.sendEphemeralMessage, this);
+        }
+    }
+
+    // Replace the message and props of one post, and return the updated post.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async updateMessage(postId: string, message: Record<string, any>): Promise<Record<string, any>> {
+        logger.start(this.updateMessage, this);
+
+        try {
+            const postObject: Record<string, any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
+                id: postId,
+                message: message.message,
+                props: message.props !== undefined ? message.props : {},
+            };
+
+            logger.debug(`The postObject is ${Util.dumpObject(postObject)}`);
+            const response = await this.put(`${this.mattermostServerBaseUrl}/posts/${postId}`)
+                    .send(JSON.stringify(postObject));
+            return response.body;
+        } catch (error) {
+            logger.error(Util.dumpObject(error));
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.updateMessage, this);
+        }
+    }
+
+    // Delete one post
+    async deleteMessage(postId: string): Promise<void> {
+        logger.start(this.deleteMessage, this);
+
+        try {
+            await this.delete(`${this.mattermostServerBaseUrl}/posts/${postId}`);
+        } catch (error) {
+            logger.error(Util.dumpObject(error));
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.deleteMessage, this);
+        }
+    }
+
+    // Add a reaction to one post on behalf of the user
+    async addReaction(userId: string, postId: string, emojiName: string): Promise<void> {
+        logger.start(this.addReaction, this);
+
+        try {
+            await this.post(`${this.mattermostServerBaseUrl}/reactions`)
+                    .send(JSON.stringify({ 'user_id': userId, 'post_id': postId, 'emoji_name': emojiName }));
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Remove a reaction of the user from one post
+    async removeReaction(userId: string, postId: string, emojiName: string): Promise<void> {
+        logger.start(this.removeReaction, this);
+
+        try {
+            await this.delete(`${this.mattermostServerBaseUrl}/users/${userId}/posts/${postId}/reactions/${encodeURIComponent(emojiName)}`);
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Show the bot is typing in the channel or thread, the indicator disappears after a few seconds
+    sendTyping(channelId: string, parentId: string): void {
+        this.seq++;
+        this.authenticate({
+            seq: this.seq,
+            action: 'user_typing',
+            data: {
+                channel_id: channelId,
+                parent_id: parentId,
+            },
+        });
+    }
+
     // Send message to Mattermost server through the WebSocket.
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private authenticate(message: Record<string, any>): void {
@@ -370,6 +621,7 @@ export class MattermostClient {
         } catch (error) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
         } finally {
             logger.end(this.openDialog, this);
         }
@@ -429,6 +681,89 @@ export class MattermostClient {
         }
     }
 
+    // Get the channels of the bot's team which the bot is a member of.
+    async getChannels(): Promise<IChannel[]> {
+        logger.start(this.getChannels, this);
+
+        try {
+            if (this.teamId === null) { // could not query channels without teamId.
+                logger.error('Could not get channels without team id.');
+                return [];
+            }
+            const response = await this.get(`${this.mattermostServerBaseUrl}/users/me/teams/${this.teamId}/channels`);
+            if (response.statusCode !== 200) {
+                logger.error(`Failed to get channels: ${response.statusMessage}`);
+                throw new Error('Failed to get channels');
+            }
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return response.body.map((body: Record<string, any>) => ({
+                id: body.id,
+                name: body.display_name,
+                chattingType: this.getChattingType(body.type),
+            }));
+        } finally {
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Create the public or private channel in the bot's team.
+    async createChannel(name: string, displayName: string, isPrivate: boolean, purpose: string): Promise<IChannel> {
+        logger.start(this.createChannel, this);
+
+        try {
+            const response = await this.post(`${this.mattermostServerBaseUrl}/channels`).send(JSON.stringify({
+                'team_id': this.teamId,
+                'name': name,
+                'display_name': displayName,
+                'type': isPrivate ? 'P' : 'O',
+                'purpose': purpose,
+            }));
+            logger.debug(`The created channel is ${Util.dumpObject(response.body)}`);
+            return {
+                id: response.body.id,
+                name: response.body.display_name,
+                chattingType: this.getChattingType(response.body.type),
+            };
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Add the user to the channel.
+    async addChannelMember(channelId: string, userId: string): Promise<void> {
+        logger.start(this.addChannelMember, this);
+
+        try {
+            await this.post(`${this.mattermostServerBaseUrl}/channels/${channelId}/members`).send(JSON.stringify({ 'user_id': userId }));
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.addChannelMember, this);
+        }
+    }
+
+    // Archive the channel, the archived channel can be restored by system admins.
+    async archiveChannel(channelId: string): Promise<void> {
+        logger.start(this.archiveChannel, this);
+
+        try {
+            await this.delete(`${this.mattermostServerBaseUrl}/channels/${channelId}`);
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
     // Get channel by channel name.
     async getChannelByName(name: string): Promise<IChannel> {
         logger.start(this.getChannelByName, this);
@@ -485,7 +820,7 @@ export class MattermostClient {
             logger.debug(Util.dumpResponse(response));
 
             if (response.statusCode === 200) {
-                const user: IUser = { id: response.body.id, name: response.body.username, email: response.body.email };
+                const user = this.createUser(response.body);
                 this.middleware.addUser(response.body.id, user);
                 return user;
             } else {
@@ -501,6 +836,118 @@ export class MattermostClient {
         }
     }
 
+    // Get user by email, null is returned if the user doesn't exist.
+    async getUserByEmail(email: string): Promise<IUser> {
+        logger.start(this.getUserByEmail, this);
+
+        try {
+            const response = await this.get(`${this.mattermostServerBaseUrl}/users/email/${encodeURIComponent(email)}`);
+            if (response.statusCode === 200) {
+                const user = this.createUser(response.body);
+                this.middleware.addUser(response.body.id, user);
+                return user;
+            } else {
+                logger.error(`Failed to get user info for email ${email}: ${response.statusMessage}`);
+                return null;
+            }
+        } finally {
+            logger.end(this.getUserByEmail, this);
+        }
+    }
+
+    // Get user by username, null is returned if the user doesn't exist.
+    async getUserByUsername(name: string): Promise<IUser> {
+        logger.start(this.getUserByUsername, this);
+
+        try {
+            const response = await this.post(`${this.mattermostServerBaseUrl}/users/usernames`).send(JSON.stringify([name]));
+            if (response.body.length === 0) {
+                logger.error(`Failed to get user info for username ${name}`);
+                return null;
+            }
+
+            const user = this.createUser(response.body[0]);
+            this.middleware.addUser(user.id, user);
+            return user;
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.getUserByUsername, this);
+        }
+    }
+
+    // Get all members of the channel page by page
+    async getChannelMembers(channelId: string): Promise<IUser[]> {
+        logger.start(this.getChannelMembers, this);
+
+        try {
+            const users: IUser[] = [];
+            for (let page = 0; ; page++) {
+                const response = await this.get(`${this.mattermostServerBaseUrl}/users?in_channel=${channelId}&page=${page}&per_page=${USER_PAGE_SIZE}`);
+                if (response.statusCode !== 200) {
+                    logger.error(`Failed to get the members of the channel ${channelId}: ${response.statusMessage}`);
+                    throw new Error('Failed to get the members of the channel');
+                }
+
+                for (const body of response.body) {
+                    const user = this.createUser(body);
+                    this.middleware.addUser(user.id, user);
+                    users.push(user);
+                }
+                if (response.body.length < USER_PAGE_SIZE) {
+                    return users;
+                }
+            }
+        } finally {
+            logger.end(this.getChannelMembers, this);
+        }
+    }
+
+    // Create the user from the user info of Mattermost
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private createUser(body: Record<string, any>): IUser {
+        const fullName = `${body.first_name !== undefined ? body.first_name : ''} ${body.last_name !== undefined ? body.last_name : ''}`.trim();
+        let displayName = body.username;
+        if (body.nickname !== undefined && body.nickname !== '') {
+            displayName = body.nickname;
+        } else if (fullName !== '') {
+            displayName = fullName;
+        }
+
+        let timezone: string = undefined;
+        if (body.timezone !== undefined && body.timezone !== null) {
+            timezone = body.timezone.useAutomaticTimezone === 'true' ? body.timezone.automaticTimezone : body.timezone.manualTimezone;
+        }
+
+        return {
+            'id': body.id,
+            'name': body.username,
+            'email': body.email,
+            'displayName': displayName,
+            'timezone': timezone !== undefined && timezone !== '' ? timezone : undefined,
+            'title': body.position !== undefined && body.position !== '' ? body.position : undefined,
+        };
+    }
+
+    // Create the direct channel between the two users, the existing channel is returned if it has been created.
+    async createDirectChannel(userId: string, otherUserId: string): Promise<string> {
+        logger.start(this.createDirectChannel, this);
+
+        try {
+            const response = await this.post(`${this.mattermostServerBaseUrl}/channels/direct`).send(JSON.stringify([userId, otherUserId]));
+            logger.debug(`The direct channel is ${Util.dumpObject(response.body)}`);
+            return response.body.id;
+        } catch (error) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(error.name), error));
+            throw error;
+        } finally {
+            logger.end(this.createDirectChannel, this);
+        }
+    }
+
     post(url: string): SuperAgentRequest {
         logger.start(this.post, this);
 
@@ -524,6 +971,43 @@ export class MattermostClient {
         }
     }
 
+    put(url: string): SuperAgentRequest {
+        logger.start(this.put, this);
+
+        try {
+            const agent = superagent.put(url)
+                    .set('Authorization', `BEARER ${this.option.botAccessToken}`)
+                    .set('Accept', 'application/json')
+                    .set('Content-Type', 'application/json');
+
+            if (this.option.protocol === 'https') {
+                agent.ca(this.option.tlsCertificate);
+            }
+
+            return agent;
+        } finally {
+            logger.end(this.put, this);
+        }
+    }
+
+    delete(url: string): SuperAgentRequest {
+        logger.start(this.delete, this);
+
+        try {
+            const agent = superagent.delete(url)
+                    .set('Authorization', `BEARER ${this.option.botAccessToken}`)
+                    .set('Accept', 'application/json');
+
+            if (this.option.protocol === 'https') {
+                agent.ca(this.option.tlsCertificate);
+            }
+
+            return agent;
+        } finally {
+            logger.end(this.delete, this);
+        }
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     async get(url: string): Promise<Record<string, any>> {
         logger.start(this.get, this);
@@ -8,37 +8,30 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
+import { IChatTool, IListenerOption, IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
 
 import { CommonBot } from '../../CommonBot';
 import { Listener } from '../../Listener';
 import { Logger } from '../../utils/Logger';
-import { MattermostMiddleware } from './MattermostMiddleware';
 
 const logger = Logger.getInstance();
 
 export class MattermostListener extends Listener {
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         this.listen = this.listen.bind(this);
     }
 
     // Run listener
-    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction): Promise<void> {
+    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction, option?: IListenerOption): Promise<void> {
         // Print start log
         logger.start(this.listen, this);
         try {
-            let middleware = this.bot.getMiddleware();
-            if (middleware === null) {
-                middleware = new MattermostMiddleware(this.bot);
-                this.bot.setMiddleware(middleware);
-                await middleware.run();
-            }
-
             // Set matcher
-            this.messageMatcher.addMatcher(matcher, handler);
+            const priority = (option !== undefined && option !== null && option.priority !== undefined) ? option.priority : 0;
+            this.messageMatcher.addMatcher(matcher, handler, priority);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
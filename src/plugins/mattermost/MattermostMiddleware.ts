@@ -14,8 +14,10 @@ import { Middleware } from '../../Middleware';
 import { Logger } from '../../utils/Logger';
 import { MattermostClient } from './MattermostClient';
 import { Util } from '../../utils/Util';
-import { MattermostListener } from './MattermostListener';
-import { IChatContextData, IMessage, IMessageType, IChatToolType, IMattermostOption, IUser, IChattingType, IChannel, IPayloadType } from '../../types';
+import { Emoji } from '../../utils/Emoji';
+import { IAttachment, IChatContextData, ICommandHelp, IMessage, IMessageType, IChatTool, IChatToolType, IMattermostOption, IUser, IChattingType, IChannel,
+    IChannelOption, IChannelRef, IChannelResult, IChatToolHealth, IConnectionStatus, IFile, IMessageRef, IPayloadType, IReplyMode,
+    ISendOption, ISendResult, IUserRef } from '../../types';
 
 const logger = Logger.getInstance();
 
@@ -26,8 +28,8 @@ export class MattermostMiddleware extends Middleware {
     private channels: Map<string, IChannel>;
 
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         this.client = null;
         this.botUser = null;
@@ -42,10 +44,9 @@ export class MattermostMiddleware extends Middleware {
         this.addUser = this.addUser.bind(this);
         this.getChannelById = this.getChannelById.bind(this);
 
-        // Get option
-        const option = this.bot.getOption();
-        if (option.chatTool.type !== IChatToolType.MATTERMOST) {
-            logger.error(`Wrong chat tool type set in bot option: ${option.chatTool.type}`);
+        // Check chat tool type
+        if (this.chatTool.type !== IChatToolType.MATTERMOST) {
+            logger.error(`Wrong chat tool type set in bot option: ${this.chatTool.type}`);
             throw new Error(`Wrong chat tool type`);
         }
     }
@@ -56,7 +57,7 @@ export class MattermostMiddleware extends Middleware {
         logger.start(this.run, this);
 
         try {
-            const mattermostOption = <IMattermostOption>(this.bot.getOption().chatTool.option);
+            const mattermostOption = <IMattermostOption>(this.chatTool.option);
             this.client = new MattermostClient(this, mattermostOption);
             if (mattermostOption.botAccessToken != null) {
                 await this.client.connect();
@@ -70,59 +71,271 @@ export class MattermostMiddleware extends Middleware {
         }
     }
 
+    // Stop middleware, disconnect the websocket
+    async stop(): Promise<void> {
+        // Print start log
+        logger.start(this.stop, this);
+
+        try {
+            if (this.client !== null && this.client !== undefined) {
+                this.client.disconnect();
+            }
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
+
+    // Ready after the websocket is connected if the bot access token is provided
+    isReady(): boolean {
+        if (this.client === null || this.client === undefined) {
+            return false;
+        }
+
+        return (<IMattermostOption>(this.chatTool.option)).botAccessToken == null || this.client.getConnectionStatus() === IConnectionStatus.ALIVE;
+    }
+
+    // Get the health along with the websocket connection status
+    getHealth(): IChatToolHealth {
+        return {
+            'chatToolType': this.chatTool.type,
+            'ready': this.isReady(),
+            'status': this.client === null || this.client === undefined ? IConnectionStatus.NOT_CONNECTED : this.client.getConnectionStatus(),
+        };
+    }
+
     // Send message back to Mattermost channel
-    async send(chatContextData: IChatContextData, messages: IMessage[]): Promise<void> {
+    async send(chatContextData: IChatContextData, messages: IMessage[], option?: ISendOption): Promise<ISendResult[]> {
         // Print start log
         logger.start(this.send, this);
 
+        const results: ISendResult[] = [];
         try {
             // Get chat context data
             logger.debug(`Chat tool data sent to Mattermost server: ${Util.dumpObject(chatContextData.context.chatTool, 2)}`);
 
-            for (const msg of messages) {
-                // Process view to open dialog.
-                if (msg.type === IMessageType.MATTERMOST_DIALOG_OPEN) {
-                    await this.client.openDialog(msg.message);
-                    break;
+            // Find channel and root post
+            let channelId: string = null;
+            let rootId = this.getReplyThreadId(chatContextData, option);
+            if (chatContextData.context.chatTool !== null && chatContextData.context.chatTool !== undefined) { // Conversation message
+                logger.info('Send conversation message ...');
+                channelId = chatContextData.context.chatting.channel.id;
+
+                // The thread ID could be missing in the chat context data built by the application, so the root post of chatTool is used
+                const replyMode = option !== undefined && option !== null ? option.replyMode : undefined;
+                const chatToolRootId = chatContextData.context.chatTool.rootId;
+                if (rootId === '' && replyMode !== IReplyMode.CHANNEL && replyMode !== IReplyMode.NEW_THREAD
+                        && chatToolRootId !== undefined && chatToolRootId !== null && chatToolRootId !== '') {
+                    rootId = chatToolRootId;
                 }
+            } else {
+                // Proactive message
+                logger.info('Send proactive message ...');
+
+                // Find channel if channel id is not provided.
+                if (chatContextData.context.chatting.channel.id === ''
+                    && chatContextData.context.chatting.channel.name !== '') { // channel name is provided.
+                    const channelInfo: IChannel = await this.client.getChannelByName(chatContextData.context.chatting.channel.name);
+
+                    if (channelInfo === null) {
+                        logger.error(`The specified MatterMost channel does not exist!\n`
+                            + JSON.stringify(chatContextData.context.chatting.channel, null, 2));
+                        throw new Error(`The specified channel does not exist`);
+                    }
+                    logger.debug(`Target channel info: ${JSON.stringify(channelInfo, null, 2)}`);
+                    channelId = channelInfo.id;
+                } else { // channel id is provided.
+                    channelId = chatContextData.context.chatting.channel.id;
+                }
+            }
+            logger.debug(`Target channel id: ${channelId}`);
 
-                // Send message back to channel
-                if (chatContextData.context.chatTool !== null) { // Conversation message
-                    logger.info('Send conversation message ...');
-                    this.client.sendMessage(msg.message, chatContextData.context.chatting.channel.id, chatContextData.context.chatTool.rootId);
-                } else {
-                    // Proactive message
-                    logger.info('Send proactive message ...');
-
-                    // Find channel if channel id is not provided.
-                    let channelId: string = null;
-                    if (chatContextData.context.chatting.channel.id === ''
-                        && chatContextData.context.chatting.channel.name !== '') { // channel name is provided.
-                        const channelInfo: IChannel = await this.client.getChannelByName(chatContextData.context.chatting.channel.name);
-
-                        if (channelInfo === null) {
-                            logger.error(`The specified MatterMost channel does not exist!\n`
-                                + JSON.stringify(chatContextData.context.chatting.channel, null, 2));
-                            return;
-                        }
-                        logger.debug(`Target channel info: ${JSON.stringify(channelInfo, null, 2)}`);
-                        channelId = channelInfo.id;
-                    } else { // channel id is provided.
-                        channelId = chatContextData.context.chatting.channel.id;
+            for (const msg of messages) {
+                try {
+                    // Process view to open dialog.
+                    if (msg.type === IMessageType.MATTERMOST_DIALOG_OPEN) {
+                        await this.client.openDialog(msg.message);
+                        results.push(Middleware.createSendResult(msg));
+                        continue;
+                    }
+
+                    // Upload the file and post it along with the comment
+                    let message = msg.message;
+                    if (msg.type === IMessageType.FILE) {
+                        const file = <IFile>msg.message;
+                        const fileId = await this.client.uploadFile(channelId, file);
+                        message = {
+                            'message': file.comment !== undefined && file.comment !== null ? file.comment : '',
+                            'file_ids': [fileId],
+                        };
                     }
 
-                    logger.debug(`Target channel id: ${channelId}`);
+                    // Ephemeral posts are not persisted, so no reference is returned
+                    if (msg.ephemeral === true) {
+                        await this.client.sendEphemeralMessage(message, chatContextData.context.chatting.user.id, channelId, rootId);
+                        results.push(Middleware.createSendResult(msg));
+                        continue;
+                    }
 
-                    this.client.sendMessage(msg.message, channelId, '');
+                    // Send message back to channel, the rest messages are replied in the thread of the first one for a new thread
+                    const post = await this.client.sendMessage(message, channelId, rootId);
+                    if (option !== undefined && option !== null && option.replyMode === IReplyMode.NEW_THREAD && rootId === '') {
+                        rootId = post.id;
+                    }
+                    results.push(Middleware.createSendResult(msg, {
+                        'chatToolType': this.chatTool.type,
+                        'id': post.id,
+                        'channelId': post.channel_id,
+                        'threadId': post.root_id !== undefined && post.root_id !== '' ? post.root_id : undefined,
+                        'timestamp': post.create_at,
+                    }));
+                } catch (err) {
+                    results.push(Middleware.createFailedSendResult(msg, err));
                 }
             }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            for (const msg of messages.slice(results.length)) {
+                results.push(Middleware.createFailedSendResult(msg, err));
+            }
         } finally {
             // Print end log
             logger.end(this.send, this);
         }
+
+        return results;
+    }
+
+    // Show the bot is typing in the channel or thread of the received message
+    async sendTyping(chatContextData: IChatContextData): Promise<void> {
+        const threadId = chatContextData.context.chatting.threadId;
+        this.client.sendTyping(chatContextData.context.chatting.channel.id, threadId !== undefined && threadId !== null ? threadId : '');
+    }
+
+    // Replace the content of one sent post, the text and attachments of all messages are combined into the post
+    async update(messageRef: IMessageRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.update, this);
+
+        try {
+            const texts: string[] = [];
+            const props: Record<string, any> = {}; // eslint-disable-line @typescript-eslint/no-explicit-any
+            for (const msg of messages) {
+                if (msg.type === IMessageType.MATTERMOST_DIALOG_OPEN || msg.type === IMessageType.FILE) {
+                    throw new Error(`The message type ${msg.type} can't be used to update a post`);
+                } else if (typeof msg.message === 'string') {
+                    texts.push(msg.message);
+                    continue;
+                }
+
+                if (msg.message.message !== undefined && msg.message.message !== null && msg.message.message !== '') {
+                    texts.push(msg.message.message);
+                }
+                if (msg.message.props !== undefined && msg.message.props !== null) {
+                    const attachments = props.attachments;
+                    Object.assign(props, msg.message.props);
+                    if (Array.isArray(attachments) && Array.isArray(msg.message.props.attachments)) {
+                        props.attachments = [...attachments, ...msg.message.props.attachments];
+                    }
+                }
+            }
+
+            const post = await this.client.updateMessage(messageRef.id, { 'message': texts.join('\n'), 'props': props });
+            const ref: IMessageRef = {
+                ...messageRef,
+                'timestamp': post.edit_at !== undefined && post.edit_at !== 0 ? post.edit_at : messageRef.timestamp,
+            };
+            return messages.map((msg) => Middleware.createSendResult(msg, ref));
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((msg) => Middleware.createFailedSendResult(msg, err));
+        } finally {
+            // Print end log
+            logger.end(this.update, this);
+        }
+    }
+
+    // Delete one sent post
+    async delete(messageRef: IMessageRef): Promise<boolean> {
+        // Print start log
+        logger.start(this.delete, this);
+
+        try {
+            await this.client.deleteMessage(messageRef.id);
+            return true;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.delete, this);
+        }
+    }
+
+    // Add an emoji reaction of the bot user to one post
+    async addReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.addReaction, this);
+
+        try {
+            await this.client.addReaction(this.botUser.id, messageRef.id, Emoji.normalize(emoji));
+            return true;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Remove an emoji reaction of the bot user from one post
+    async removeReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.removeReaction, this);
+
+        try {
+            await this.client.removeReaction(this.botUser.id, messageRef.id, Emoji.normalize(emoji));
+            return true;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Create the messages to show command help as a Mattermost message attachment
+    createHelpMessages(chatContextData: IChatContextData, help: ICommandHelp): IMessage[] {
+        const attachment: Record<string, any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
+            'fallback': help.title,
+            'title': help.title,
+            'text': help.description === undefined || help.description === null ? '' : help.description,
+            'fields': help.items.map((item) => ({
+                'short': false,
+                'title': item.name,
+                'value': item.description,
+            })),
+        };
+        if (help.footer !== undefined && help.footer !== null) {
+            attachment.footer = help.footer;
+        }
+
+        return [{
+            'type': IMessageType.MATTERMOST_ATTACHMENT,
+            'message': {
+                'message': '',
+                'props': {
+                    'attachments': [attachment],
+                },
+            },
+        }];
     }
 
     // Process normal message
@@ -185,6 +398,7 @@ export class MattermostMiddleware extends Middleware {
             if (chattingType === IChattingType.PERSONAL && !receivedMessage.trim().startsWith('@')) {
                 receivedMessage = `@${this.botUser.name} ${receivedMessage}`;
             }
+            const attachments = await this.getAttachments(messagePost);
             const chatContextData: IChatContextData = {
                 'payload': {
                     'type': IPayloadType.MESSAGE,
@@ -193,6 +407,7 @@ export class MattermostMiddleware extends Middleware {
                 'context': {
                     'chatting': {
                         'bot': this.bot,
+                        'botName': this.botUser.name,
                         'type': chattingType,
                         'user': {
                             'id': messagePost.user_id,
@@ -211,36 +426,246 @@ export class MattermostMiddleware extends Middleware {
                             'id': '',
                             'name': '',
                         },
+                        'messageRef': {
+                            'chatToolType': IChatToolType.MATTERMOST,
+                            'id': messagePost.id,
+                            'channelId': messagePost.channel_id,
+                            'threadId': messagePost.root_id !== undefined && messagePost.root_id !== '' ? messagePost.root_id : undefined,
+                            'timestamp': messagePost.create_at,
+                        },
+                        'threadId': messagePost.root_id !== undefined && messagePost.root_id !== '' ? messagePost.root_id : undefined,
+                        'attachments': attachments,
                     },
                     'chatTool': {
                         'rootId': messagePost.root_id,
                     },
+                    'chatToolType': IChatToolType.MATTERMOST,
                 },
             };
             logger.debug(`Chat context data sent to chat bot: ${Util.dumpObject(chatContextData, 2)}`);
 
-            // Get listeners
-            const listeners = <[MattermostListener]> this.bot.getListeners();
-
             // Match and process message
-            for (const listener of listeners) {
-                const matchers = listener.getMessageMatcher().getMatchers();
-                for (const matcher of matchers) {
-                    const matched: boolean = matcher.matcher(chatContextData);
-                    if (matched) {
-                        // Call message handler to process message
-                        for (const handler of matcher.handlers) {
-                            await handler(chatContextData);
-                        }
-                    }
+            await this.dispatchMessage(chatContextData);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+        } finally {
+            // Print end log
+            logger.end(this.processMessage, this);
+        }
+    }
+
+    // Find the user by ID, username or email, the cached user is returned if it's found by ID.
+    async findUser(userRef: IUserRef): Promise<IUser> {
+        // Print start log
+        logger.start(this.findUser, this);
+
+        try {
+            let user: IUser = null;
+            if (userRef.id !== undefined && userRef.id !== null && userRef.id !== '') {
+                user = this.users.get(userRef.id);
+                if (user === undefined) {
+                    user = await this.client.getUserById(userRef.id);
                 }
+            } else if (userRef.name !== undefined && userRef.name !== null && userRef.name !== '') {
+                user = await this.client.getUserByUsername(userRef.name.replace(/^@/, ''));
+            } else if (userRef.email !== undefined && userRef.email !== null && userRef.email !== '') {
+                user = await this.client.getUserByEmail(userRef.email);
             }
+
+            return user === undefined ? null : user;
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
         } finally {
             // Print end log
-            logger.end(this.processMessage, this);
+            logger.end(this.findUser, this);
+        }
+    }
+
+    // Get the members of the channel
+    async getChannelMembers(channelId: string): Promise<IUser[]> {
+        // Print start log
+        logger.start(this.getChannelMembers, this);
+
+        try {
+            return await this.client.getChannelMembers(channelId);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannelMembers, this);
+        }
+    }
+
+    // Get the channels of the bot's team which the bot is a member of
+    async getChannels(): Promise<IChannel[]> {
+        // Print start log
+        logger.start(this.getChannels, this);
+
+        try {
+            return await this.client.getChannels();
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Find the channel by ID or name.
+    // The name is matched with the display names returned by getChannels() first, and then with the name in the channel URL.
+    async findChannel(channelRef: IChannelRef): Promise<IChannel> {
+        // Print start log
+        logger.start(this.findChannel, this);
+
+        try {
+            let channel: IChannel = null;
+            if (channelRef.id !== undefined && channelRef.id !== null && channelRef.id !== '') {
+                channel = await this.client.getChannelById(channelRef.id);
+            } else if (channelRef.name !== undefined && channelRef.name !== null && channelRef.name !== '') {
+                const name = channelRef.name.toLowerCase();
+                channel = (await this.client.getChannels()).find((item) => item.name.toLowerCase() === name);
+                if (channel === undefined) {
+                    channel = await this.client.getChannelByName(Util.toChannelName(channelRef.name));
+                }
+            }
+
+            return channel === undefined ? null : channel;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findChannel, this);
+        }
+    }
+
+    // Create the channel in the bot's team and invite the members
+    async createChannel(option: IChannelOption): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.createChannel, this);
+
+        try {
+            const channel = await this.client.createChannel(Util.toChannelName(option.name), option.name, option.private === true,
+                    option.purpose !== undefined ? option.purpose : '');
+            if (option.members !== undefined && option.members !== null && option.members.length > 0) {
+                const inviteResult = await this.inviteToChannel(channel.id, option.members);
+                if (!inviteResult.success) {
+                    inviteResult.channel = channel;
+                    return inviteResult;
+                }
+            }
+
+            return Middleware.createChannelResult(channel);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Invite the users to the channel one by one
+    async inviteToChannel(channelId: string, userIds: string[]): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.inviteToChannel, this);
+
+        try {
+            for (const userId of userIds) {
+                await this.client.addChannelMember(channelId, userId);
+            }
+            return Middleware.createChannelResult();
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.inviteToChannel, this);
+        }
+    }
+
+    // Archive the channel
+    async archiveChannel(channelId: string): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.archiveChannel, this);
+
+        try {
+            await this.client.archiveChannel(channelId);
+            return Middleware.createChannelResult();
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
+    // Get the chat context data of the direct channel with the user
+    async getDirectChatContext(userRef: IUserRef): Promise<IChatContextData> {
+        // Print start log
+        logger.start(this.getDirectChatContext, this);
+
+        try {
+            const user = await this.findUser(userRef);
+            if (user === null) {
+                logger.error(`The Mattermost user does not exist: ${JSON.stringify(userRef)}`);
+                throw new Error('The user does not exist');
+            }
+
+            const channelId = await this.client.createDirectChannel(this.botUser.id, user.id);
+            const chatContextData = this.createDirectChatContext(user, channelId);
+            chatContextData.context.chatting.botName = this.botUser.name;
+            return chatContextData;
+        } finally {
+            // Print end log
+            logger.end(this.getDirectChatContext, this);
+        }
+    }
+
+    // Get the files attached to the post, the file info is queried if it's not included in the post metadata.
+    // No attachments are returned if the file info fails to be queried, so the message is still dispatched.
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private async getAttachments(messagePost: Record<string, any>): Promise<IAttachment[]> {
+        // Print start log
+        logger.start(this.getAttachments, this);
+
+        try {
+            if (messagePost.file_ids === undefined || messagePost.file_ids === null || messagePost.file_ids.length === 0) {
+                return [];
+            }
+
+            let fileInfos = messagePost.metadata !== undefined && messagePost.metadata !== null ? messagePost.metadata.files : undefined;
+            if (fileInfos === undefined || fileInfos === null) {
+                fileInfos = await this.client.getFileInfos(messagePost.id);
+            }
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            return fileInfos.map((fileInfo: Record<string, any>) => ({
+                'id': fileInfo.id,
+                'name': fileInfo.name,
+                'size': fileInfo.size,
+                'contentType': fileInfo.mime_type,
+                'download': () => this.client.downloadFile(fileInfo.id),
+            }));
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getAttachments, this);
         }
     }
 
@@ -8,7 +8,7 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IUser, IRouteHandlerFunction, IChatContextData, IPayloadType, IEvent, IActionType } from '../../types';
+import { IChatTool, IUser, IRouteHandlerFunction, IRouteOption, IChatContextData, IPayloadType, IEvent, IActionType, IChatToolType } from '../../types';
 import type { Request, Response } from 'express';
 import { CommonBot } from '../../CommonBot';
 import { Router } from '../../Router';
@@ -18,9 +18,13 @@ import { MattermostMiddleware } from './MattermostMiddleware';
 const logger = Logger.getInstance();
 
 export class MattermostRouter extends Router {
+    private paths: Set<string>; // Paths listened on the messaging app
+
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
+
+        this.paths = new Set<string>();
 
         // Bind this pointer
         this.route = this.route.bind(this);
@@ -28,22 +32,25 @@ export class MattermostRouter extends Router {
     }
 
     // Run router
-    async route(path: string, handler: IRouteHandlerFunction): Promise<void> {
+    async route(path: string, handler: IRouteHandlerFunction, option?: IRouteOption): Promise<void> {
         // Print start log
         logger.start(this.route, this);
 
         try {
-            // Set router
-            this.router = {
-                path: path,
-                handler: handler,
-            };
+            // Add route
+            this.addRoute(path, handler, option);
+
+            // Listen the path only once, since all routes are dispatched by processAction
+            if (this.paths.has(path)) {
+                return;
+            }
+            this.paths.add(path);
 
             // Get bot option
-            const option = this.bot.getOption();
+            const botOption = this.bot.getOption();
 
             // Set router
-            await option.messagingApp.app.post(this.router.path, this.processAction);
+            await botOption.messagingApp.app.post(path, this.processAction);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -124,7 +131,7 @@ export class MattermostRouter extends Router {
                 'body': payload,
             };
 
-            const middleware = <MattermostMiddleware> this.bot.getMiddleware();
+            const middleware = <MattermostMiddleware> this.bot.getMiddleware(this.chatTool.type);
             const user: IUser = await middleware.getUserById(payload.user_id);
             logger.debug(`user is ${JSON.stringify(user)}`);
 
@@ -157,12 +164,24 @@ export class MattermostRouter extends Router {
                             'id': '',
                             'name': '',
                         },
+                        'threadId': rootId !== '' ? rootId : undefined,
                     },
                     'chatTool': chatToolContext,
+                    'chatToolType': IChatToolType.MATTERMOST,
                 },
             };
 
-            this.router.handler(chatContextData);
+            // Reference of the post with the button or menu, it's not provided for dialog submissions
+            if (payload.post_id !== undefined && payload.post_id !== null && payload.post_id !== '') {
+                chatContextData.context.chatting.messageRef = {
+                    'chatToolType': IChatToolType.MATTERMOST,
+                    'id': payload.post_id,
+                    'channelId': payload.channel_id,
+                    'threadId': rootId !== '' ? rootId : undefined,
+                };
+            }
+
+            await this.dispatch(chatContextData);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
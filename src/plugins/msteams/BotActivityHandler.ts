@@ -9,7 +9,7 @@
 */
 
 import type { NextFunction } from 'express';
-import { IChatContextData, TaskModuleTaskInfo, IUser, IPayloadType, IEvent, IActionType } from '../../types';
+import { IChatContextData, TaskModuleTaskInfo, IUser, IUserRef, IPayloadType, IEvent, IActionType, IChatToolType } from '../../types';
 
 import { TurnContext, TeamsActivityHandler, TeamsInfo, ChannelInfo, TaskModuleRequest, TaskModuleResponse, CardFactory } from 'botbuilder';
 
@@ -17,7 +17,6 @@ import { IChattingType } from '../../types';
 import { Logger } from '../../utils/Logger';
 import { Util } from '../../utils/Util';
 import { CommonBot } from '../../CommonBot';
-import { MsteamsListener } from './MsteamsListener';
 import { MsteamsRouter } from './MsteamsRouter';
 import { MsteamsMiddleware } from './MsteamsMiddleware';
 
@@ -28,7 +27,9 @@ export class BotActivityHandler extends TeamsActivityHandler {
     private middleware: MsteamsMiddleware;
     private serviceUrl: Map<string, string>;
     private channels: ChannelInfo[];
+    private teamIds: Set<string>; // Teams where the bot is installed, they are required to list channels
     private users: Map<string, IUser>;
+    private tenantId: string; // Tenant where the bot is installed, it's required to create personal chats
 
     constructor(bot: CommonBot, middleware: MsteamsMiddleware) {
         super();
@@ -37,7 +38,9 @@ export class BotActivityHandler extends TeamsActivityHandler {
         this.middleware = middleware;
         this.serviceUrl = new Map<string, string>();
         this.channels = <ChannelInfo[]>[];
+        this.teamIds = new Set<string>();
         this.users = new Map<string, IUser>();
+        this.tenantId = null;
 
         // Bing this pointer
         this.processMessage = this.processMessage.bind(this);
@@ -82,8 +85,14 @@ export class BotActivityHandler extends TeamsActivityHandler {
                 return;
             }
 
-            // Cache channel info
+            // Cache tenant id
+            if (context.activity.channelData.tenant !== undefined && context.activity.channelData.tenant !== null) {
+                this.tenantId = context.activity.channelData.tenant.id;
+            }
+
+            // Cache team id and channel info
             if (context.activity.conversation.conversationType === 'channel') {
+                this.cacheTeamId(context);
                 this.channels = await TeamsInfo.getTeamChannels(context);
                 logger.debug(`Channel info: ${JSON.stringify(this.channels, null, 2)}`);
             }
@@ -117,6 +126,7 @@ export class BotActivityHandler extends TeamsActivityHandler {
                 'context': {
                     'chatting': {
                         'bot': this.bot,
+                        'botName': context.activity.recipient.name,
                         'type': chattingType,
                         'user': {
                             'id': user.id,
@@ -135,10 +145,24 @@ export class BotActivityHandler extends TeamsActivityHandler {
                             'id': context.activity.channelData.tenant.id,
                             'name': '',
                         },
+                        'messageRef': {
+                            'chatToolType': IChatToolType.MSTEAMS,
+                            'id': context.activity.id,
+                            'channelId': context.activity.conversation.id,
+                            'threadId': MsteamsMiddleware.getThreadId(context.activity.conversation.id),
+                            'timestamp': context.activity.timestamp !== undefined ? new Date(context.activity.timestamp).getTime() : Date.now(),
+                            'extraData': {
+                                'serviceUrl': context.activity.serviceUrl,
+                                'conversation': context.activity.conversation,
+                            },
+                        },
+                        'threadId': MsteamsMiddleware.getThreadId(context.activity.conversation.id),
+                        'attachments': this.middleware.getAttachments(context.activity),
                     },
                     'chatTool': {
                         'context': context,
                     },
+                    'chatToolType': IChatToolType.MSTEAMS,
                 },
             };
             logger.debug(`Chat context data sent to chat bot: ${Util.dumpObject(chatContextData, 2)}`);
@@ -306,27 +330,13 @@ export class BotActivityHandler extends TeamsActivityHandler {
                 chatContextData.payload.data = event;
 
                 // Get router
-                const router = <MsteamsRouter> this.bot.geRouter();
+                const router = <MsteamsRouter> this.bot.getRouter(IChatToolType.MSTEAMS);
 
                 // Call route handler for mouse navigation
-                await router.getRoute().handler(chatContextData);
+                await router.dispatch(chatContextData);
             } else { // From user input
-                // Get listeners
-                const listeners = <MsteamsListener[]> this.bot.getListeners();
-
                 // Match and process message
-                for (const listener of listeners) {
-                    const matchers = listener.getMessageMatcher().getMatchers();
-                    for (const matcher of matchers) {
-                        const matched: boolean = matcher.matcher(chatContextData);
-                        if (matched) {
-                            // Call message handler to process message
-                            for (const handler of matcher.handlers) {
-                                await handler(chatContextData);
-                            }
-                        }
-                    }
-                }
+                await this.middleware.dispatchMessage(chatContextData);
             }
 
             await next();
@@ -351,7 +361,8 @@ export class BotActivityHandler extends TeamsActivityHandler {
             // Cache service URL
             this.cacheServiceUrl(conversationReference.channelId, conversationReference.serviceUrl);
 
-            // Cache channel info
+            // Cache team id and channel info
+            this.cacheTeamId(context);
             this.channels = await TeamsInfo.getTeamChannels(context);
             logger.debug(`Channel info: ${JSON.stringify(this.channels, null, 2)}`);
 
@@ -443,19 +454,21 @@ export class BotActivityHandler extends TeamsActivityHandler {
                             'id': context.activity.channelData.tenant.id,
                             'name': '',
                         },
+                        'threadId': MsteamsMiddleware.getThreadId(context.activity.conversation.id),
                     },
                     'chatTool': {
                         'actionType': 'taskFetch',
                         'context': context,
                         'data': taskModuleRequest.data,
                     },
+                    'chatToolType': IChatToolType.MSTEAMS,
                 },
             };
 
             // Get router
-            const router = <MsteamsRouter> this.bot.geRouter();
+            const router = <MsteamsRouter> this.bot.getRouter(IChatToolType.MSTEAMS);
             // Call route handler for mouse navigation
-            const chatOpsTaskInfo: TaskModuleTaskInfo = <TaskModuleTaskInfo> await router.getRoute().handler(chatContextData);
+            const chatOpsTaskInfo: TaskModuleTaskInfo = <TaskModuleTaskInfo> await router.dispatch(chatContextData);
 
             // The adaptive card doesn't adapt the theme mode of the MS Teams, and sometimes the display is not good
             // https://techcommunity.microsoft.com/t5/teams-developer/ms-teams-dark-mode-task-with-adaptive-card-wrong-colors/m-p/2837861#M4032
@@ -536,19 +549,21 @@ export class BotActivityHandler extends TeamsActivityHandler {
                             'id': context.activity.channelData.tenant.id,
                             'name': '',
                         },
+                        'threadId': MsteamsMiddleware.getThreadId(context.activity.conversation.id),
                     },
                     'chatTool': {
                         'actionType': 'taskSubmit',
                         'context': context,
                         'data': taskModuleRequest.data,
                     },
+                    'chatToolType': IChatToolType.MSTEAMS,
                 },
             };
 
             // Get router
-            const router = <MsteamsRouter> this.bot.geRouter();
+            const router = <MsteamsRouter> this.bot.getRouter(IChatToolType.MSTEAMS);
             // Call router handler for mouse navigation
-            const taskInfo: TaskModuleTaskInfo = <TaskModuleTaskInfo> await router.getRoute().handler(chatContextData);
+            const taskInfo: TaskModuleTaskInfo = <TaskModuleTaskInfo> await router.dispatch(chatContextData);
 
             if (taskInfo !== null && taskInfo !== undefined) {
                 return {
@@ -617,6 +632,46 @@ export class BotActivityHandler extends TeamsActivityHandler {
         return this.users.get(id);
     }
 
+    // Find the cached user by ID, name or email, null is returned if the user is not cached.
+    findUser(userRef: IUserRef): IUser {
+        for (const user of this.users.values()) {
+            if (userRef.id !== undefined && userRef.id !== null && userRef.id !== '') {
+                if (user.id === userRef.id) {
+                    return user;
+                }
+            } else if (userRef.name !== undefined && userRef.name !== null && userRef.name !== '') {
+                if (user.name !== undefined && user.name !== null && user.name.toLowerCase() === userRef.name.toLowerCase()) {
+                    return user;
+                }
+            } else if (userRef.email !== undefined && userRef.email !== null && userRef.email !== '') {
+                if (user.email !== undefined && user.email !== null && user.email.toLowerCase() === userRef.email.toLowerCase()) {
+                    return user;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    // Get tenant id
+    getTenantId(): string {
+        return this.tenantId;
+    }
+
+    // Get the ids of the teams where the bot is installed
+    getTeamIds(): string[] {
+        return [...this.teamIds];
+    }
+
+    // Cache the id of the team where the activity happens
+    private cacheTeamId(context: TurnContext): void {
+        const channelData = context.activity.channelData;
+        if (channelData !== undefined && channelData !== null && channelData.team !== undefined && channelData.team !== null
+                && channelData.team.id !== undefined && channelData.team.id !== null && channelData.team.id !== '') {
+            this.teamIds.add(channelData.team.id);
+        }
+    }
+
     // Add the user
     addUser(id: string, user: IUser): boolean {
         let result: boolean = true;
@@ -8,40 +8,32 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
+import { IChatTool, IListenerOption, IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
 
 import { CommonBot } from '../../CommonBot';
 import { Listener } from '../../Listener';
 import { Logger } from '../../utils/Logger';
-import { MsteamsMiddleware } from './MsteamsMiddleware';
 
 const logger = Logger.getInstance();
 
 export class MsteamsListener extends Listener {
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         // Bind this pointer
         this.listen = this.listen.bind(this);
     }
 
     // Run listener
-    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction): Promise<void> {
+    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction, option?: IListenerOption): Promise<void> {
         // Print start log
         logger.start(this.listen, this);
 
         try {
-            // Check and set middleware
-            let middleware = <MsteamsMiddleware> this.bot.getMiddleware();
-            if (middleware === null) {
-                middleware = new MsteamsMiddleware(this.bot);
-                this.bot.setMiddleware(middleware);
-                await middleware.run();
-            }
-
             // Set matcher
-            this.messageMatcher.addMatcher(matcher, handler);
+            const priority = (option !== undefined && option !== null && option.priority !== undefined) ? option.priority : 0;
+            this.messageMatcher.addMatcher(matcher, handler, priority);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
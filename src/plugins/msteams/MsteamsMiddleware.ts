@@ -9,10 +9,12 @@
 */
 
 import type { Request, Response } from 'express';
-import { IChatContextData, IChatToolType, IMessage, IMessageType, IMsteamsOption } from '../../types';
+import { IChatContextData, IChatTool, IChatToolHealth, IChattingType, ICommandHelp, IConnectionStatus, IChatToolType, IMessage, IMessageRef, IMessageType,
+    IChannel, IChannelOption, IChannelRef, IChannelResult, IMsteamsBotLimit, IMsteamsOption, IAttachment, IFile, ISendOption, ISendResult, IUser,
+    IUserRef } from '../../types';
 
-import { BotFrameworkAdapter, TurnContext, CardFactory, ConversationParameters, Attachment, Activity,
-    MessageFactory, ConversationAccount, Entity } from 'botbuilder';
+import { BotFrameworkAdapter, TurnContext, CardFactory, ConversationParameters, Attachment, Activity, MessageFactory,
+    ConversationAccount, ConversationReference, Entity, ResourceResponse, ActivityTypes, ChannelAccount, ChannelInfo, TeamsInfo } from 'botbuilder';
 import { CommonBot } from '../../CommonBot';
 import { Middleware } from '../../Middleware';
 import { BotActivityHandler } from './BotActivityHandler';
@@ -20,29 +22,32 @@ import { Logger } from '../../utils/Logger';
 import { Util } from '../../utils/Util';
 
 const logger = Logger.getInstance();
+const FILE_DOWNLOAD_INFO_TYPE = 'application/vnd.microsoft.teams.file.download.info';
+const USER_PAGE_SIZE = 500; // Maximum number of members per page of MS Teams API
 
 export class MsteamsMiddleware extends Middleware {
     private botFrameworkAdapter: BotFrameworkAdapter;
     private botActivityHandler: BotActivityHandler;
+    private stopped: boolean; // Requests are rejected once the middleware is stopped
 
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
+        this.stopped = false;
 
         // Bind this pointer
         this.processTurnError = this.processTurnError.bind(this);
         this.run = this.run.bind(this);
         this.send = this.send.bind(this);
 
-        // Get option
-        const option = this.bot.getOption();
-        if (option.chatTool.type !== IChatToolType.MSTEAMS) {
-            logger.error(`Wrong chat tool type set in bot option: ${option.chatTool.type}`);
+        // Check chat tool type
+        if (this.chatTool.type !== IChatToolType.MSTEAMS) {
+            logger.error(`Wrong chat tool type set in bot option: ${this.chatTool.type}`);
             throw new Error(`Wrong chat tool type`);
         }
 
         // Create adapter
-        const msteamsOption: IMsteamsOption = <IMsteamsOption>option.chatTool.option;
+        const msteamsOption: IMsteamsOption = <IMsteamsOption> this.chatTool.option;
         this.botFrameworkAdapter = new BotFrameworkAdapter({
             appId: msteamsOption.botId,
             appPassword: msteamsOption.botPassword,
@@ -88,11 +93,19 @@ export class MsteamsMiddleware extends Middleware {
 
             // Listen for incoming requests
             option.messagingApp.app.post(option.messagingApp.option.basePath, (req: Request, res: Response) => {
+                if (this.stopped) {
+                    res.status(503).end();
+                    return;
+                }
+
                 this.botFrameworkAdapter.processActivity(req, res, async (context) => {
                     // Process bot activity
                     await this.botActivityHandler.run(context);
                 });
             });
+
+            // There is no connection to MS Teams, the bot is connected once it's ready to receive requests
+            this.emitConnectionEvent('connected', IConnectionStatus.ALIVE);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -102,15 +115,85 @@ export class MsteamsMiddleware extends Middleware {
         }
     }
 
+    // Stop middleware, the requests are rejected with 503 from now on.
+    // The HTTP server is owned by the messaging app, and it should be closed by the application.
+    async stop(): Promise<void> {
+        // Print start log
+        logger.start(this.stop, this);
+
+        try {
+            this.stopped = true;
+            this.emitConnectionEvent('disconnected', IConnectionStatus.CLOSED, 'Stopped by the bot');
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
+
+    // Get the health along with whether the service URL has been cached, which is required to send proactive messages.
+    // The service URL is cached after the first message is received, so it doesn't affect the readiness.
+    getHealth(): IChatToolHealth {
+        const health = super.getHealth();
+        health.details = {
+            'serviceUrlCached': this.botActivityHandler.getServiceUrl().size > 0,
+        };
+        return health;
+    }
+
     // Send message back to MS Teams channel
-    async send(chatContextData: IChatContextData, messages: IMessage[]): Promise<void> {
+    async send(chatContextData: IChatContextData, messages: IMessage[], option?: ISendOption): Promise<ISendResult[]> {
         // Print start log
         logger.start(this.send, this);
 
+        let results: ISendResult[] = [];
         try {
             // Get chat context data
             logger.debug(`Chat context data sent to MS Teams: ${Util.dumpObject(chatContextData, 2)}`);
 
+            // MS Teams doesn't support ephemeral messages, so they are sent to the personal chat with the user unless it's a personal chat already
+            const ephemeralMessages = messages.filter((message) => message.ephemeral === true);
+            if (ephemeralMessages.length > 0 && chatContextData.context.chatting.type !== IChattingType.PERSONAL) {
+                const restMessages = messages.filter((message) => message.ephemeral !== true);
+                results = [
+                    ...await this.sendPersonalMessages(chatContextData, ephemeralMessages),
+                    ...(restMessages.length > 0 ? await this.send(chatContextData, restMessages, option) : []),
+                ];
+                return messages.map((message) => results.find((result) => result.message === message));
+            }
+
+            // MS Teams only renders the inlined images, so the other files and the images over the message size limit are not sent
+            const unsupportedResults: ISendResult[] = [];
+            for (const message of messages.filter((item) => item.type === IMessageType.FILE)) {
+                const error = this.checkFile(<IFile>message.message);
+                if (error !== null) {
+                    logger.error(`The file ${(<IFile>message.message).filename} is not supported: ${error.message}`);
+                    unsupportedResults.push(Middleware.createFailedSendResult(message, error));
+                }
+            }
+            if (unsupportedResults.length > 0) {
+                const restMessages = messages.filter((message) => !unsupportedResults.some((result) => result.message === message));
+                results = [
+                    ...unsupportedResults,
+                    ...(restMessages.length > 0 ? await this.send(chatContextData, restMessages, option) : []),
+                ];
+                return messages.map((message) => results.find((result) => result.message === message));
+            }
+
+            // Files over the maximum number of attachments of one activity are not sent
+            const fileMessages = messages.filter((message) => message.type === IMessageType.FILE);
+            const limit = <IMsteamsBotLimit> this.bot.getLimit(this.chatTool.type);
+            const fileAttachmentMaxNumber = limit !== null && limit.fileAttachmentMaxNumber !== undefined ? limit.fileAttachmentMaxNumber : fileMessages.length;
+            if (fileMessages.length > fileAttachmentMaxNumber) {
+                logger.error(`Only ${fileAttachmentMaxNumber} files can be sent in one activity, the rest ${fileMessages.length - fileAttachmentMaxNumber} are dropped`);
+                const droppedMessages = fileMessages.slice(fileAttachmentMaxNumber);
+                const error = new Error(`The number of files exceeds the limit ${fileAttachmentMaxNumber}`);
+                results = [
+                    ...droppedMessages.map((message) => Middleware.createFailedSendResult(message, error)),
+                    ...await this.send(chatContextData, messages.filter((message) => !droppedMessages.includes(message)), option),
+                ];
+                return messages.map((message) => results.find((result) => result.message === message));
+            }
+
             // Get text and attachment part of the message to be sent
             let textMessage: string = '';
             const mentions: Record<string, any>[] = []; // eslint-disable-line @typescript-eslint/no-explicit-any
@@ -120,6 +203,12 @@ export class MsteamsMiddleware extends Middleware {
                     textMessage = `${textMessage}\n${message.message}`;
                 } else if (message.type === IMessageType.MSTEAMS_ADAPTIVE_CARD) {
                     attachments.push(CardFactory.adaptiveCard(message.message));
+                } else if (message.type === IMessageType.FILE) {
+                    const file = <IFile>message.message;
+                    attachments.push(await this.createFileAttachment(file));
+                    if (file.comment !== undefined && file.comment !== null && file.comment !== '') {
+                        textMessage = `${textMessage}\n${file.comment}`;
+                    }
                 } else {
                     logger.error(`Unsupported type "${message.type}" for the message: ${JSON.stringify(message, null, 2)}`);
                     textMessage = `${textMessage}\n${JSON.stringify(message.message)}`;
@@ -169,29 +258,77 @@ export class MsteamsMiddleware extends Middleware {
             }
             logger.debug(`activity to be sent: ${JSON.stringify(activity, null, 2)}`);
 
+            // Get the received activity and the thread to reply in.
+            // Every top-level message of a channel is a thread, so a new thread is created to post messages to the channel.
+            let receivedActivity: Activity = null;
+            if (chatContextData.context.chatTool !== null && chatContextData.context.chatTool !== undefined
+                    && chatContextData.context.chatTool.context !== null
+                    && chatContextData.context.chatTool.context !== undefined) {
+                receivedActivity = chatContextData.context.chatTool.context.activity;
+            }
+            const threadId = this.getReplyThreadId(chatContextData, option);
+
             // Send message back to channel
             if (activity !== '') {
-                if (chatContextData.context.chatTool !== null && chatContextData.context.chatTool !== undefined
-                        && chatContextData.context.chatTool.context !== null
-                        && chatContextData.context.chatTool.context !== undefined) { // Conversation message
+                if (receivedActivity !== null && (receivedActivity.conversation.conversationType !== 'channel' || threadId !== '')) { // Conversation message
                     logger.info('Send conversation message ...');
 
                     // Get conversation reference
-                    const conversationReference = TurnContext.getConversationReference(chatContextData.context.chatTool.context.activity);
+                    const conversationReference = TurnContext.getConversationReference(receivedActivity);
+                    if (receivedActivity.conversation.conversationType === 'channel') {
+                        conversationReference.conversation = <ConversationAccount> {
+                            ...conversationReference.conversation,
+                            id: `${receivedActivity.conversation.id.split(';')[0]};messageid=${threadId}`,
+                        };
+                    }
                     logger.debug(`conversationReference: ${JSON.stringify(conversationReference, null, 2)}`);
 
-                    // Send message
+                    // Send message, all messages are carried by the same activity
+                    let response: ResourceResponse = null;
                     await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
-                        await turnContext.sendActivity(activity);
+                        response = await turnContext.sendActivity(activity);
                     });
+                    const ref = this.createMessageRef(response, conversationReference);
+                    results = messages.map((message) => Middleware.createSendResult(message, ref));
                 } else { // Proactive message
                     logger.info('Send proactive message ...');
 
                     // Check cached service URL
-                    if (this.botActivityHandler.getServiceUrl().size === 0 && !(chatContextData.extraData && chatContextData.extraData.serviceUrl)) {
+                    if (this.botActivityHandler.getServiceUrl().size === 0 && !(chatContextData.extraData && chatContextData.extraData.serviceUrl)
+                            && receivedActivity === null) {
                         logger.error(`The cached MS Teams service URL is empty! `
                             + `You must talk with your bot in your MS Teams client first to cache the service URL.`);
-                        return;
+                        throw new Error('The MS Teams service URL is not cached');
+                    }
+
+                    // Send message to the personal chat created by getDirectChatContext()
+                    if (chatContextData.context.chatting.type === IChattingType.PERSONAL) {
+                        const conversationId = chatContextData.context.chatting.channel.id;
+                        let serviceUrl = this.botActivityHandler.findServiceUrl(chatContextData.context.chatting.user.id);
+                        if (serviceUrl === '' && chatContextData.extraData && chatContextData.extraData.serviceUrl) {
+                            const serviceUrlContextData = <Map<string, string>>(chatContextData.extraData.serviceUrl);
+                            serviceUrl = serviceUrlContextData.has(conversationId) ? serviceUrlContextData.get(conversationId) : '';
+                        }
+                        if (serviceUrl === '') {
+                            logger.error(`MS Teams service URL does not exist for the personal chat ${conversationId}`);
+                            throw new Error('The MS Teams service URL does not exist for the personal chat');
+                        }
+
+                        const conversationReference: Partial<ConversationReference> = {
+                            serviceUrl: serviceUrl,
+                            conversation: <ConversationAccount> {
+                                isGroup: false,
+                                id: conversationId,
+                                conversationType: 'personal',
+                                tenantId: chatContextData.context.chatting.tenant.id,
+                            },
+                        };
+                        let response: ResourceResponse = null;
+                        await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+                            response = await turnContext.sendActivity(activity);
+                        });
+                        const ref = this.createMessageRef(response, conversationReference);
+                        return messages.map((message) => Middleware.createSendResult(message, ref));
                     }
 
                     // Find channel
@@ -207,15 +344,24 @@ export class MsteamsMiddleware extends Middleware {
                     } else {
                         channelInfo = this.botActivityHandler.findChannelById(chatContextData.context.chatting.channel.id);
                     }
+                    if (channelInfo == null && receivedActivity !== null && chatContextData.context.chatting.channel.id !== '') {
+                        // The channel where the message is received
+                        channelInfo = {
+                            id: chatContextData.context.chatting.channel.id,
+                            name: chatContextData.context.chatting.channel.name,
+                        };
+                    }
                     logger.info(`Target channel info: ${JSON.stringify(channelInfo, null, 2)}`);
                     if (channelInfo == null) {
                         logger.error(`The specified MS Teams channel does not exist!\n${JSON.stringify(chatContextData.context.chatting.channel, null, 2)}`);
-                        return;
+                        throw new Error('The MS Teams channel does not exist');
                     }
 
                     // Get service URL
                     let serviceUrl = this.botActivityHandler.findServiceUrl(channelInfo.id);
-                    if (serviceUrl === '') {
+                    if (serviceUrl === '' && receivedActivity !== null) {
+                        serviceUrl = receivedActivity.serviceUrl;
+                    } else if (serviceUrl === '') {
                         logger.debug(`Couldn't find serviceUrl in common bot`);
 
                         // Find serviceUrl from context data
@@ -224,11 +370,29 @@ export class MsteamsMiddleware extends Middleware {
                             serviceUrl = serviceUrlContextData.get(channelInfo.id);
                         } else {
                             logger.error(`MS Teams service URL does not exist for the channel ${JSON.stringify(channelInfo, null, 2)}`);
-                            return;
+                            throw new Error('The MS Teams service URL does not exist for the channel');
                         }
                     }
                     logger.info(`Service URL: ${serviceUrl}`);
 
+                    // Send message to the thread of the channel
+                    if (threadId !== '') {
+                        const conversationReference: Partial<ConversationReference> = {
+                            serviceUrl: serviceUrl,
+                            conversation: <ConversationAccount> {
+                                isGroup: true,
+                                id: `${channelInfo.id};messageid=${threadId}`,
+                                conversationType: 'channel',
+                            },
+                        };
+                        let response: ResourceResponse = null;
+                        await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+                            response = await turnContext.sendActivity(activity);
+                        });
+                        const ref = this.createMessageRef(response, conversationReference);
+                        return messages.map((message) => Middleware.createSendResult(message, ref));
+                    }
+
                     // Create connector client
                     const connectorClient = this.botFrameworkAdapter.createConnectorClient(serviceUrl);
 
@@ -284,23 +448,588 @@ export class MsteamsMiddleware extends Middleware {
                     // Construct the conversationReference
                     conversationReference.conversation = <ConversationAccount> {
                         isGroup: true,
-                        id: conversationResourceResponse.id,
+                        id: `${conversationResourceResponse.id.split(';')[0]};messageid=${conversationResourceResponse.activityId}`,
                         conversationType: 'channel',
                     };
                     conversationReference.serviceUrl = serviceUrl;
+                    const firstRef = this.createMessageRef({ 'id': conversationResourceResponse.activityId }, conversationReference);
+
                     // Send the rest activity
-                    this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
-                        await turnContext.sendActivity(restActivity);
-                    });
+                    let restRef = firstRef;
+                    if (restActivity !== null) {
+                        let response: ResourceResponse = null;
+                        await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+                            response = await turnContext.sendActivity(restActivity);
+                        });
+                        restRef = this.createMessageRef(response, conversationReference);
+                    }
+
+                    // Text is carried by the first activity, the cards are carried by the rest activity except the first card of a card only message
+                    let firstCard = textMessage === '';
+                    for (const message of messages) {
+                        let ref = firstRef;
+                        if (message.type === IMessageType.MSTEAMS_ADAPTIVE_CARD || message.type === IMessageType.FILE) {
+                            ref = firstCard ? firstRef : restRef;
+                            firstCard = false;
+                        }
+                        results.push(Middleware.createSendResult(message, ref));
+                    }
                 }
+            } else {
+                results = messages.map((message) => Middleware.createFailedSendResult(message, new Error('The message to be sent is empty')));
             }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            results = messages.map((message) => Middleware.createFailedSendResult(message, err));
         } finally {
             // Print end log
             logger.end(this.send, this);
         }
+
+        return results;
+    }
+
+    // Show the bot is typing in the conversation of the received message, the indicator disappears after a few seconds
+    async sendTyping(chatContextData: IChatContextData): Promise<void> {
+        if (chatContextData.context.chatTool === null || chatContextData.context.chatTool === undefined
+                || chatContextData.context.chatTool.context === null || chatContextData.context.chatTool.context === undefined) {
+            return;
+        }
+
+        const conversationReference = TurnContext.getConversationReference(chatContextData.context.chatTool.context.activity);
+        await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+            await turnContext.sendActivity({ type: ActivityTypes.Typing });
+        });
+    }
+
+    // Replace the content of one sent activity, the text and cards of all messages are combined into the activity
+    async update(messageRef: IMessageRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.update, this);
+
+        try {
+            if (messages.some((message) => message.type === IMessageType.FILE)) {
+                throw new Error(`The message type ${IMessageType.FILE} can't be used to update an activity`);
+            }
+            const activity = await this.createActivity(messages);
+            activity.id = messageRef.id;
+            await this.botFrameworkAdapter.continueConversation(this.getConversationReference(messageRef), async (turnContext) => {
+                await turnContext.updateActivity(activity);
+            });
+
+            return messages.map((message) => Middleware.createSendResult(message, messageRef));
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((message) => Middleware.createFailedSendResult(message, err));
+        } finally {
+            // Print end log
+            logger.end(this.update, this);
+        }
+    }
+
+    // Delete one sent activity
+    async delete(messageRef: IMessageRef): Promise<boolean> {
+        // Print start log
+        logger.start(this.delete, this);
+
+        try {
+            await this.botFrameworkAdapter.continueConversation(this.getConversationReference(messageRef), async (turnContext) => {
+                await turnContext.deleteActivity(messageRef.id);
+            });
+            return true;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.delete, this);
+        }
+    }
+
+    // Bots can't react to messages in MS Teams, so adding reactions is not supported.
+    async addReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.addReaction, this);
+
+        try {
+            logger.error(`Adding reactions is not supported on MS Teams, failed to add ${emoji} to the message ${messageRef.id}`);
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Bots can't react to messages in MS Teams, so removing reactions is not supported.
+    async removeReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.removeReaction, this);
+
+        try {
+            logger.error(`Removing reactions is not supported on MS Teams, failed to remove ${emoji} from the message ${messageRef.id}`);
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Send messages to the personal chat with the user who sent the received message, which is used for ephemeral messages
+    private async sendPersonalMessages(chatContextData: IChatContextData, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.sendPersonalMessages, this);
+
+        try {
+            if (chatContextData.context.chatTool === null || chatContextData.context.chatTool === undefined
+                    || chatContextData.context.chatTool.context === null || chatContextData.context.chatTool.context === undefined) {
+                logger.error('Ephemeral messages can only be sent to the user of the received message in MS Teams');
+                throw new Error('No received message to find the user');
+            }
+
+            // Create the personal chat with the user and send the messages
+            const conversationReference = TurnContext.getConversationReference(chatContextData.context.chatTool.context.activity);
+            conversationReference.user = <ChannelAccount> {
+                id: chatContextData.context.chatting.user.id,
+                name: chatContextData.context.chatting.user.name,
+            };
+            let ref: IMessageRef = null;
+            await this.botFrameworkAdapter.createConversation(conversationReference, async (turnContext) => {
+                const response = await turnContext.sendActivity(await this.createActivity(messages));
+                ref = this.createMessageRef(response, TurnContext.getConversationReference(turnContext.activity));
+            });
+
+            return messages.map((message) => Middleware.createSendResult(message, ref));
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((message) => Middleware.createFailedSendResult(message, err));
+        } finally {
+            // Print end log
+            logger.end(this.sendPersonalMessages, this);
+        }
+    }
+
+    // Combine the text, Adaptive Cards and files of the messages into one activity
+    private async createActivity(messages: IMessage[]): Promise<Partial<Activity>> {
+        const texts: string[] = [];
+        const attachments: Attachment[] = [];
+        for (const message of messages) {
+            if (message.type === IMessageType.PLAIN_TEXT) {
+                texts.push(message.message);
+            } else if (message.type === IMessageType.MSTEAMS_ADAPTIVE_CARD) {
+                attachments.push(CardFactory.adaptiveCard(message.message));
+            } else if (message.type === IMessageType.FILE) {
+                const file = <IFile>message.message;
+                attachments.push(await this.createFileAttachment(file));
+                if (file.comment !== undefined && file.comment !== null && file.comment !== '') {
+                    texts.push(file.comment);
+                }
+            } else {
+                logger.error(`Unsupported type "${message.type}" for the message: ${JSON.stringify(message, null, 2)}`);
+                texts.push(JSON.stringify(message.message));
+            }
+        }
+
+        return {
+            'type': ActivityTypes.Message,
+            'text': texts.join('\n'),
+            'attachments': attachments,
+        };
+    }
+
+    // Check whether the file can be inlined into the activity, null is returned if it's supported.
+    // Uploading the other files requires the file consent card in personal chats or SharePoint in channels, which is not supported.
+    private checkFile(file: IFile, size?: number): Error {
+        if (file.contentType === undefined || file.contentType === null || !file.contentType.startsWith('image/')) {
+            return new Error(`Only images can be sent as files in MS Teams, but the content type is ${file.contentType}`);
+        }
+
+        // The content is inlined as base64, which is 4/3 of the original size
+        const limit = this.bot.getLimit(this.chatTool.type);
+        const contentSize = size !== undefined ? size : (Buffer.isBuffer(file.content) ? file.content.length : 0);
+        if (limit !== null && Math.ceil(contentSize / 3) * 4 > limit.messageMaxLength) {
+            return new Error(`The encoded image exceeds the message size limit ${limit.messageMaxLength} bytes`);
+        }
+
+        return null;
+    }
+
+    // Create the attachment of the image, the content is inlined as a data URL
+    private async createFileAttachment(file: IFile): Promise<Attachment> {
+        const contentType = file.contentType;
+        const content = await Util.readContent(file.content);
+        const error = this.checkFile(file, content.length);
+        if (error !== null) {
+            logger.error(`The file ${file.filename} is not supported: ${error.message}`);
+            throw error;
+        }
+        return {
+            'contentType': contentType,
+            'contentUrl': `data:${contentType};base64,${content.toString('base64')}`,
+            'name': file.filename,
+        };
+    }
+
+    // Find the user by ID, name or email.
+    // MS Teams can't find users without Microsoft Graph, so the cached users and the members of the cached team are searched.
+    async findUser(userRef: IUserRef): Promise<IUser> {
+        // Print start log
+        logger.start(this.findUser, this);
+
+        try {
+            const user = this.botActivityHandler.findUser(userRef);
+            if (user !== null || this.botActivityHandler.getChannel().length === 0) {
+                return user;
+            }
+
+            // Search the members of the team, which are the members of any channel
+            await this.getChannelMembers(this.botActivityHandler.getChannel()[0].id);
+            return this.botActivityHandler.findUser(userRef);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findUser, this);
+        }
+    }
+
+    // Get the members of the channel or group chat page by page
+    async getChannelMembers(channelId: string): Promise<IUser[]> {
+        // Print start log
+        logger.start(this.getChannelMembers, this);
+
+        try {
+            const serviceUrl = this.findServiceUrl(channelId);
+            if (serviceUrl === '') {
+                logger.error(`MS Teams service URL does not exist for the channel ${channelId}`);
+                throw new Error('The MS Teams service URL does not exist for the channel');
+            }
+
+            const users: IUser[] = [];
+            const conversationReference: Partial<ConversationReference> = {
+                serviceUrl: serviceUrl,
+                conversation: <ConversationAccount> {
+                    isGroup: true,
+                    id: channelId,
+                    tenantId: this.botActivityHandler.getTenantId(),
+                },
+            };
+            await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+                let continuationToken: string = undefined;
+                do {
+                    const result = await TeamsInfo.getPagedMembers(turnContext, USER_PAGE_SIZE, continuationToken);
+                    for (const member of result.members) {
+                        const user: IUser = { id: member.id, name: member.name, email: member.email, displayName: member.name };
+                        this.botActivityHandler.addUser(member.id, user);
+                        users.push(user);
+                    }
+                    continuationToken = result.continuationToken;
+                } while (continuationToken !== undefined && continuationToken !== null && continuationToken !== '');
+            });
+
+            return users;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannelMembers, this);
+        }
+    }
+
+    // Get the channels of the teams where the bot has received messages or conversation updates.
+    // The cached channels of the last team are returned if the channels fail to be fetched.
+    async getChannels(): Promise<IChannel[]> {
+        // Print start log
+        logger.start(this.getChannels, this);
+
+        try {
+            const channels: IChannel[] = [];
+            for (const teamId of this.botActivityHandler.getTeamIds()) {
+                const serviceUrl = this.findServiceUrl(teamId);
+                if (serviceUrl === '') {
+                    logger.error(`MS Teams service URL does not exist for the team ${teamId}`);
+                    throw new Error('The MS Teams service URL does not exist for the team');
+                }
+
+                const conversationReference: Partial<ConversationReference> = {
+                    serviceUrl: serviceUrl,
+                    conversation: <ConversationAccount> {
+                        isGroup: true,
+                        id: teamId,
+                        conversationType: 'channel',
+                        tenantId: this.botActivityHandler.getTenantId(),
+                    },
+                };
+                await this.botFrameworkAdapter.continueConversation(conversationReference, async (turnContext) => {
+                    const channelInfos = await TeamsInfo.getTeamChannels(turnContext, teamId);
+                    channels.push(...channelInfos.map((channelInfo) => this.toChannel(channelInfo)));
+                });
+            }
+
+            return channels;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return this.botActivityHandler.getChannel().map((channelInfo) => this.toChannel(channelInfo));
+        } finally {
+            // Print end log
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Find the channel of the team by ID or name
+    async findChannel(channelRef: IChannelRef): Promise<IChannel> {
+        // Print start log
+        logger.start(this.findChannel, this);
+
+        try {
+            const channels = await this.getChannels();
+            let channel: IChannel = undefined;
+            if (channelRef.id !== undefined && channelRef.id !== null && channelRef.id !== '') {
+                channel = channels.find((item) => item.id === channelRef.id);
+            } else if (channelRef.name !== undefined && channelRef.name !== null && channelRef.name !== '') {
+                channel = channels.find((item) => item.name.toLowerCase() === channelRef.name.toLowerCase());
+            }
+
+            return channel === undefined ? null : channel;
+        } finally {
+            // Print end log
+            logger.end(this.findChannel, this);
+        }
+    }
+
+    // Creating channels requires Microsoft Graph, so it's not supported on MS Teams.
+    async createChannel(option: IChannelOption): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.createChannel, this);
+
+        try {
+            logger.error(`Creating channels is not supported on MS Teams, failed to create the channel ${option.name}`);
+            return Middleware.createNotSupportedChannelResult('Creating channels');
+        } finally {
+            // Print end log
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Inviting users to channels requires Microsoft Graph, so it's not supported on MS Teams.
+    async inviteToChannel(channelId: string, userIds: string[]): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.inviteToChannel, this);
+
+        try {
+            logger.error(`Inviting users is not supported on MS Teams, failed to invite ${userIds.length} users to the channel ${channelId}`);
+            return Middleware.createNotSupportedChannelResult('Inviting users to channels');
+        } finally {
+            // Print end log
+            logger.end(this.inviteToChannel, this);
+        }
+    }
+
+    // Archiving channels requires Microsoft Graph, so it's not supported on MS Teams.
+    async archiveChannel(channelId: string): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.archiveChannel, this);
+
+        try {
+            logger.error(`Archiving channels is not supported on MS Teams, failed to archive the channel ${channelId}`);
+            return Middleware.createNotSupportedChannelResult('Archiving channels');
+        } finally {
+            // Print end log
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
+    // Convert the channel info of MS Teams to the channel
+    private toChannel(channelInfo: ChannelInfo): IChannel {
+        return {
+            // The name of the General channel is not provided
+            'id': channelInfo.id,
+            'name': channelInfo.name !== undefined && channelInfo.name !== null ? channelInfo.name : 'General',
+            'chattingType': IChattingType.PUBLIC_CHANNEL,
+        };
+    }
+
+    // Get the chat context data of the personal chat with the user.
+    // Users given by ID can be found even if they are not cached.
+    async getDirectChatContext(userRef: IUserRef): Promise<IChatContextData> {
+        // Print start log
+        logger.start(this.getDirectChatContext, this);
+
+        try {
+            let user = await this.findUser(userRef);
+            if (user === null && userRef.id !== undefined && userRef.id !== null && userRef.id !== '') {
+                user = { id: userRef.id, name: '', email: '' };
+            } else if (user === null) {
+                logger.error(`The MS Teams user is not found, the user must talk with the bot first: ${JSON.stringify(userRef)}`);
+                throw new Error('The user does not exist');
+            }
+
+            // Service URL and tenant are cached after the first message is received
+            const serviceUrl = this.findServiceUrl(user.id);
+            const tenantId = this.botActivityHandler.getTenantId();
+            if (serviceUrl === '' || tenantId === null) {
+                logger.error(`The cached MS Teams service URL or tenant is empty! `
+                    + `You must talk with your bot in your MS Teams client first to cache them.`);
+                throw new Error('The MS Teams service URL is not cached');
+            }
+
+            // Create the personal chat, the existing one is returned if it has been created
+            const msteamsOption = <IMsteamsOption> this.chatTool.option;
+            const connectorClient = this.botFrameworkAdapter.createConnectorClient(serviceUrl);
+            const conversationResourceResponse = await connectorClient.conversations.createConversation(<ConversationParameters>{
+                isGroup: false,
+                bot: { id: `28:${msteamsOption.botId}`, name: msteamsOption.botUserName },
+                members: [{ id: user.id, name: user.name }],
+                tenantId: tenantId,
+                channelData: {
+                    tenant: { id: tenantId },
+                },
+            });
+
+            const chatContextData = this.createDirectChatContext(user, conversationResourceResponse.id);
+            chatContextData.context.chatting.botName = msteamsOption.botUserName;
+            chatContextData.context.chatting.tenant.id = tenantId;
+            chatContextData.extraData = {
+                'serviceUrl': new Map<string, string>([[conversationResourceResponse.id, serviceUrl]]),
+            };
+            return chatContextData;
+        } finally {
+            // Print end log
+            logger.end(this.getDirectChatContext, this);
+        }
+    }
+
+    // Find the service URL cached for the ID, or any cached one since the bot serves one tenant
+    private findServiceUrl(id: string): string {
+        const serviceUrl = this.botActivityHandler.findServiceUrl(id);
+        if (serviceUrl === '' && this.botActivityHandler.getServiceUrl().size > 0) {
+            return this.botActivityHandler.getServiceUrl().values().next().value;
+        }
+
+        return serviceUrl;
+    }
+
+    // Get the files attached to the activity, the HTML content and cards are not files.
+    //  - Files uploaded in personal chats are downloaded from the pre-authenticated download URL.
+    //  - Inline images are downloaded with the bot token.
+    getAttachments(activity: Activity): IAttachment[] {
+        if (activity.attachments === undefined || activity.attachments === null) {
+            return [];
+        }
+
+        const attachments: IAttachment[] = [];
+        for (const attachment of activity.attachments) {
+            if (attachment.contentType === FILE_DOWNLOAD_INFO_TYPE) {
+                // Only the file extension is provided instead of the MIME type
+                attachments.push({
+                    'id': attachment.content.uniqueId,
+                    'name': attachment.name,
+                    'contentType': 'application/octet-stream',
+                    'download': () => Util.download(attachment.content.downloadUrl),
+                });
+            } else if (attachment.contentUrl !== undefined && attachment.contentUrl !== null && attachment.contentType.startsWith('image/')) {
+                attachments.push({
+                    'id': attachment.contentUrl,
+                    'name': attachment.name !== undefined && attachment.name !== null ? attachment.name : '',
+                    'contentType': attachment.contentType,
+                    'download': async () => {
+                        const connectorClient = this.botFrameworkAdapter.createConnectorClient(activity.serviceUrl);
+                        const token = await (<{ getToken: () => Promise<string> }><unknown>connectorClient.credentials).getToken();
+                        return await Util.download(attachment.contentUrl, { 'Authorization': `Bearer ${token}` });
+                    },
+                });
+            }
+        }
+
+        return attachments;
+    }
+
+    // Get the root message ID of the thread from the conversation ID of a channel, undefined is returned if it's not a thread
+    static getThreadId(conversationId: string): string {
+        const index = conversationId.indexOf(';messageid=');
+        return index === -1 ? undefined : conversationId.substring(index + ';messageid='.length);
+    }
+
+    // Get the conversation reference from the message reference returned by send()
+    private getConversationReference(messageRef: IMessageRef): Partial<ConversationReference> {
+        if (messageRef.extraData === undefined || messageRef.extraData === null
+            || messageRef.extraData.serviceUrl === undefined || messageRef.extraData.conversation === undefined) {
+            logger.error(`The service URL and conversation are missing in the message reference: ${JSON.stringify(messageRef, null, 2)}`);
+            throw new Error('Invalid MS Teams message reference');
+        }
+
+        return {
+            'serviceUrl': messageRef.extraData.serviceUrl,
+            'conversation': messageRef.extraData.conversation,
+        };
+    }
+
+    // Create the reference of the sent activity, the service URL and conversation are kept to update or delete it later
+    private createMessageRef(response: ResourceResponse, conversationReference: Partial<ConversationReference>): IMessageRef {
+        return {
+            'chatToolType': this.chatTool.type,
+            'id': response !== undefined && response !== null ? response.id : '',
+            'channelId': conversationReference.conversation.id,
+            'threadId': MsteamsMiddleware.getThreadId(conversationReference.conversation.id),
+            'timestamp': Date.now(),
+            'extraData': {
+                'serviceUrl': conversationReference.serviceUrl,
+                'conversation': conversationReference.conversation,
+            },
+        };
+    }
+
+    // Create the messages to show command help as an Adaptive Card
+    createHelpMessages(chatContextData: IChatContextData, help: ICommandHelp): IMessage[] {
+        const body: Record<string, any>[] = [{ // eslint-disable-line @typescript-eslint/no-explicit-any
+            'type': 'TextBlock',
+            'text': help.title,
+            'weight': 'Bolder',
+            'size': 'Medium',
+            'wrap': true,
+        }];
+        if (help.description !== undefined && help.description !== null && help.description !== '') {
+            body.push({
+                'type': 'TextBlock',
+                'text': help.description,
+                'wrap': true,
+            });
+        }
+        if (help.items.length > 0) {
+            body.push({
+                'type': 'FactSet',
+                'facts': help.items.map((item) => ({
+                    'title': item.name,
+                    'value': item.description,
+                })),
+            });
+        }
+        if (help.footer !== undefined && help.footer !== null && help.footer !== '') {
+            body.push({
+                'type': 'TextBlock',
+                'text': help.footer,
+                'isSubtle': true,
+                'wrap': true,
+            });
+        }
+
+        return [{
+            'type': IMessageType.MSTEAMS_ADAPTIVE_CARD,
+            'message': {
+                '$schema': 'http://adaptivecards.io/schemas/adaptive-card.json',
+                'type': 'AdaptiveCard',
+                'version': '1.2',
+                'body': body,
+            },
+        }];
     }
 }
 
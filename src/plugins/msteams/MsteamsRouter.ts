@@ -8,43 +8,31 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import type { IRouteHandlerFunction } from '../../types';
+import type { IChatTool, IRouteHandlerFunction, IRouteOption } from '../../types';
 
 import { CommonBot } from '../../CommonBot';
 import { Router } from '../../Router';
 import { Logger } from '../../utils/Logger';
-import { MsteamsMiddleware } from './MsteamsMiddleware';
 
 const logger = Logger.getInstance();
 
 export class MsteamsRouter extends Router {
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         // Bind this pointer
         this.route = this.route.bind(this);
     }
 
     // Run router
-    async route(path: string, handler: IRouteHandlerFunction): Promise<void> {
+    async route(path: string, handler: IRouteHandlerFunction, option?: IRouteOption): Promise<void> {
         // Print start log
         logger.start(this.route, this);
 
         try {
-            // Check and set middleware
-            let middleware = <MsteamsMiddleware> this.bot.getMiddleware();
-            if (middleware === null) {
-                middleware = new MsteamsMiddleware(this.bot);
-                this.bot.setMiddleware(middleware);
-                await middleware.run();
-            }
-
-            // Set router
-            this.router = {
-                path: path,
-                handler: handler,
-            };
+            // Add route
+            this.addRoute(path, handler, option);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -8,15 +8,18 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { ExpressReceiver, ExpressReceiverOptions } from '@slack/bolt';
+import { ErrorCode, ExpressReceiver, ExpressReceiverOptions } from '@slack/bolt';
 import { Application } from 'express';
 import { Logger } from '../../utils/Logger';
 
 const logger = Logger.getInstance();
 
 export class Receiver extends ExpressReceiver {
+    private externalApp: boolean; // Whether the app is provided by the application, whose HTTP server is owned by the application
+
     constructor(expressReceiverOptions: ExpressReceiverOptions) {
         super(expressReceiverOptions);
+        this.externalApp = false;
     }
 
     // Replace the default app and use the router
@@ -25,6 +28,7 @@ export class Receiver extends ExpressReceiver {
         try {
             this.app = messagingApp;
             this.app.use(this.router);
+            this.externalApp = true;
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -33,4 +37,26 @@ export class Receiver extends ExpressReceiver {
             logger.end(this.setApp, this);
         }
     }
+
+    // Close the HTTP server if the receiver owns it.
+    // The HTTP server of the app provided by the application is not closed, it should be closed by the application.
+    async stop(): Promise<void> {
+        logger.start(this.stop, this);
+        try {
+            if (this.externalApp) {
+                logger.info('The HTTP server of the messaging app is owned by the application, and it should be closed by the application');
+                return;
+            }
+
+            await super.stop();
+        } catch (err) {
+            // The server is not started
+            if (err.code !== ErrorCode.ReceiverInconsistentStateError) {
+                throw err;
+            }
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
 }
@@ -8,40 +8,32 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
+import { IChatTool, IListenerOption, IMessageHandlerFunction, IMessageMatcherFunction } from '../../types';
 
 import { CommonBot } from '../../CommonBot';
 import { Listener } from '../../Listener';
-import { SlackMiddleware } from './SlackMiddleware';
 import { Logger } from '../../utils/Logger';
 
 const logger = Logger.getInstance();
 
 export class SlackListener extends Listener {
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         this.listen = this.listen.bind(this);
     }
 
     // Run listener
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction): Promise<void> {
+    async listen(matcher: IMessageMatcherFunction, handler: IMessageHandlerFunction, option?: IListenerOption): Promise<void> {
         // Print start log
         logger.start(this.listen, this);
 
         try {
-            // Check and set middleware
-            let middleware = <SlackMiddleware> this.bot.getMiddleware();
-            if (middleware === null) {
-                middleware = new SlackMiddleware(this.bot);
-                this.bot.setMiddleware(middleware);
-                await middleware.run();
-            }
-
             // Set matcher
-            this.messageMatcher.addMatcher(matcher, handler);
+            const priority = (option !== undefined && option !== null && option.priority !== undefined) ? option.priority : 0;
+            this.messageMatcher.addMatcher(matcher, handler, priority);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -8,38 +8,45 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import { IChatContextData, ILogLevel, IMessage, IMessageType, ISlackOption, IChattingType, IUser, IChatToolType, IChannel,
-    IPayloadType, IActionType, IEvent } from '../../types';
+import { IChatContextData, IChatToolHealth, ICommandHelp, IConnectionStatus, ILogLevel, IMessage, IMessageType, ISlackOption, IChattingType, IUser, IChatTool,
+    IChatToolType, IChannel, IChannelOption, IChannelRef, IChannelResult, IPayloadType, IActionType, IEvent, IAttachment, IFile, IMessageRef, IReplyMode,
+    ISendOption, ISendResult, IUserRef } from '../../types';
 import type { SlackEventMiddlewareArgs, SlackViewMiddlewareArgs, AllMiddlewareArgs, SlackActionMiddlewareArgs, AppOptions } from '@slack/bolt';
-import { ExpressReceiverOptions } from '@slack/bolt';
-import { WebClient } from '@slack/web-api';
+import { ExpressReceiverOptions, SocketModeReceiver } from '@slack/bolt';
+import { ChatPostMessageResponse, KnownBlock, WebClient } from '@slack/web-api';
 
 import { CommonBot } from '../../CommonBot';
 import { Middleware } from '../../Middleware';
 import { Logger } from '../../utils/Logger';
 import { App, LogLevel } from '@slack/bolt';
 import { Util } from '../../utils/Util';
-import { SlackListener } from './SlackListener';
+import { Emoji } from '../../utils/Emoji';
 import { SlackRouter } from './SlackRouter';
 import { Receiver } from './Receiver';
 
 const logger = Logger.getInstance();
+const TYPING_EMOJI = 'hourglass_flowing_sand';
+const USER_PAGE_SIZE = 200; // Number of users per page of Slack API
+const USER_LOOKUP_CONCURRENCY = 10; // Maximum number of users looked up at the same time
+const CHANNEL_PAGE_SIZE = 200; // Number of channels per page of Slack API
 
 export class SlackMiddleware extends Middleware {
     private app: App;
     private botName: string = '';
     private users: Map<string, IUser>;
     private channels: Map<string, IChannel>;
+    private typingMessages: Set<string>; // Messages with the reaction added by sendTyping()
 
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         this.users = new Map<string, IUser>();
         this.channels = new Map<string, IChannel>();
+        this.typingMessages = new Set<string>();
         const option = this.bot.getOption();
-        if (option.chatTool.type !== IChatToolType.SLACK) {
-            logger.error(`Wrong chat tool type set in bot option: ${option.chatTool.type}`);
+        if (this.chatTool.type !== IChatToolType.SLACK) {
+            logger.error(`Wrong chat tool type set in bot option: ${this.chatTool.type}`);
             throw new Error(`Wrong chat tool type`);
         }
 
@@ -60,7 +67,7 @@ export class SlackMiddleware extends Middleware {
         }
 
         // Create the slack receiver if socket mode is not enabled
-        const slackOption: ISlackOption = <ISlackOption>option.chatTool.option;
+        const slackOption: ISlackOption = <ISlackOption> this.chatTool.option;
         if (slackOption.socketMode === false) {
             logger.debug(`Socket mode is not enabled, start the http/https receiver`);
             const expressReceiverOptions: ExpressReceiverOptions = {
@@ -74,14 +81,27 @@ export class SlackMiddleware extends Middleware {
             if (option.messagingApp.app !== null) {
                 receiver.setApp(option.messagingApp.app);
             }
-            (<ISlackOption>option.chatTool.option).receiver = receiver;
+            slackOption.receiver = receiver;
         } else {
-            // While socket mode is enabled, receiver should be undefined.
-            slackOption.receiver = undefined;
+            // Create the socket mode receiver to get its connection events
+            const receiver = new SocketModeReceiver({
+                'appToken': slackOption.appToken,
+                'logLevel': logLevel,
+            });
+            receiver.client.on('connected', () => {
+                this.emitConnectionEvent('connected', IConnectionStatus.ALIVE);
+            });
+            receiver.client.on('disconnected', (error?: Error) => {
+                this.emitConnectionEvent('disconnected', IConnectionStatus.CLOSED, error === undefined || error === null ? null : error.message);
+            });
+            receiver.client.on('reconnecting', () => {
+                this.emitConnectionEvent('reconnecting', IConnectionStatus.RECONNECTING);
+            });
+            slackOption.receiver = receiver;
         }
 
         // Create the bolt app: https://slack.dev/bolt-js/reference#initialization-options
-        this.app = new App(<AppOptions>option.chatTool.option);
+        this.app = new App(<AppOptions> this.chatTool.option);
 
         this.run = this.run.bind(this);
         this.send = this.send.bind(this);
@@ -97,15 +117,19 @@ export class SlackMiddleware extends Middleware {
 
         // Initializes your app with your bot token and signing secret
         try {
-            const option = this.bot.getOption();
             // Only start the receiver if the app use socket mode
-            if ((<ISlackOption>option.chatTool.option).socketMode === true) {
+            if ((<ISlackOption> this.chatTool.option).socketMode === true) {
                 await this.app.start();
             }
 
             this.app.message(/.*/, this.processMessage);
             this.app.action(/.*/, this.processAction);
             this.app.view(/.*/, this.processViewAction);
+
+            // There is no connection in HTTP mode, the bot is connected once it's ready to receive requests
+            if ((<ISlackOption> this.chatTool.option).socketMode !== true) {
+                this.emitConnectionEvent('connected', IConnectionStatus.ALIVE);
+            }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -115,6 +139,37 @@ export class SlackMiddleware extends Middleware {
         }
     }
 
+    // Stop middleware, the socket mode connection or the HTTP server of the receiver is closed.
+    // If the messaging app is provided, its HTTP server is owned by the application, and it should be closed by the application.
+    async stop(): Promise<void> {
+        // Print start log
+        logger.start(this.stop, this);
+
+        try {
+            await this.app.stop();
+            if ((<ISlackOption> this.chatTool.option).socketMode !== true) {
+                this.emitConnectionEvent('disconnected', IConnectionStatus.CLOSED, 'Stopped by the bot');
+            }
+        } finally {
+            // Print end log
+            logger.end(this.stop, this);
+        }
+    }
+
+    // Ready after the socket mode connection is established, or always ready in HTTP mode
+    isReady(): boolean {
+        return (<ISlackOption> this.chatTool.option).socketMode !== true || this.connectionStatus === IConnectionStatus.ALIVE;
+    }
+
+    // Get the health along with the connection mode
+    getHealth(): IChatToolHealth {
+        const health = super.getHealth();
+        health.details = {
+            'socketMode': (<ISlackOption> this.chatTool.option).socketMode === true,
+        };
+        return health;
+    }
+
     // Process normal message
     async processMessage(slackEvent: SlackEventMiddlewareArgs<'message'> & AllMiddlewareArgs): Promise<void> {
         // Print start log
@@ -148,7 +203,7 @@ export class SlackMiddleware extends Middleware {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const userInfo = await slackEvent.client.users.info({ user: (<Record<string, any>>slackEvent.message).user });
                 logger.debug(`Cache the user info: ${JSON.stringify(userInfo)}`);
-                user = { id: userInfo.user.id, name: userInfo.user.real_name, email: userInfo.user.profile.email };
+                user = this.createUser(userInfo.user);
                 this.addUser(userInfo.user.id, user);
             }
 
@@ -223,6 +278,7 @@ export class SlackMiddleware extends Middleware {
                 'context': {
                     'chatting': {
                         'bot': this.bot,
+                        'botName': this.botName,
                         'type': channel.chattingType,
                         'user': {
                             'id': user.id,
@@ -241,37 +297,347 @@ export class SlackMiddleware extends Middleware {
                             'id': '',
                             'name': '',
                         },
+                        'messageRef': {
+                            'chatToolType': IChatToolType.SLACK,
+                            'id': slackEvent.message.ts,
+                            'channelId': channelId,
+                            'threadId': (<Record<string, any>>slackEvent.message).thread_ts, // eslint-disable-line @typescript-eslint/no-explicit-any
+                            'timestamp': Math.round(Number(slackEvent.message.ts) * 1000),
+                        },
+                        'threadId': (<Record<string, any>>slackEvent.message).thread_ts, // eslint-disable-line @typescript-eslint/no-explicit-any
+                        'attachments': this.getAttachments(slackEvent),
                     },
                     'chatTool': chatToolContext,
+                    'chatToolType': IChatToolType.SLACK,
                 },
             };
             logger.debug(`Chat context data sent to chat bot: ${Util.dumpObject(chatContextData, 2)}`);
 
-            // Get listeners
-            const listeners = <SlackListener[]> this.bot.getListeners();
-
             // Match and process message
-            for (const listener of listeners) {
-                const matchers = listener.getMessageMatcher().getMatchers();
-                for (const matcher of matchers) {
-                    const matched: boolean = matcher.matcher(chatContextData);
-                    if (matched) {
-                    // Call message handler to process message
-                        for (const handler of matcher.handlers) {
-                            await handler(chatContextData);
-                        }
+            await this.dispatchMessage(chatContextData);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+        } finally {
+            // Print end log
+            logger.end(this.processMessage, this);
+        }
+    }
+
+    // Find the user by ID, username or email, the cached user is returned if it's found by ID.
+    // Slack can't find users by username, so all users are listed to find the user whose username or display name matches.
+    async findUser(userRef: IUserRef): Promise<IUser> {
+        // Print start log
+        logger.start(this.findUser, this);
+
+        try {
+            let user: IUser = null;
+            if (userRef.id !== undefined && userRef.id !== null && userRef.id !== '') {
+                user = this.getUser(userRef.id);
+                if (user === undefined) {
+                    const userInfo = await this.app.client.users.info({ user: userRef.id });
+                    user = this.createUser(userInfo.user);
+                    this.addUser(userInfo.user.id, user);
+                }
+            } else if (userRef.name !== undefined && userRef.name !== null && userRef.name !== '') {
+                const name = userRef.name.replace(/^@/, '').toLowerCase();
+                let cursor: string = undefined;
+                do {
+                    const response = await this.app.client.users.list({ cursor: cursor, limit: USER_PAGE_SIZE });
+                    const member = response.members.find((item) => item.deleted !== true
+                        && (item.name.toLowerCase() === name || (item.profile.display_name !== undefined && item.profile.display_name.toLowerCase() === name)));
+                    if (member !== undefined) {
+                        user = this.createUser(member);
+                        this.addUser(member.id, user);
+                        break;
                     }
+                    cursor = response.response_metadata !== undefined ? response.response_metadata.next_cursor : '';
+                } while (cursor !== undefined && cursor !== '');
+            } else if (userRef.email !== undefined && userRef.email !== null && userRef.email !== '') {
+                const userInfo = await this.app.client.users.lookupByEmail({ email: userRef.email });
+                user = this.createUser(userInfo.user);
+                this.addUser(userInfo.user.id, user);
+            }
+
+            return user;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findUser, this);
+        }
+    }
+
+    // Get the members of the channel.
+    // The uncached members are looked up concurrently, and the members who fail to be looked up are skipped.
+    async getChannelMembers(channelId: string): Promise<IUser[]> {
+        // Print start log
+        logger.start(this.getChannelMembers, this);
+
+        try {
+            const ids: string[] = [];
+            let cursor: string = undefined;
+            do {
+                const response = await this.app.client.conversations.members({ channel: channelId, cursor: cursor, limit: USER_PAGE_SIZE });
+                ids.push(...response.members);
+                cursor = response.response_metadata !== undefined ? response.response_metadata.next_cursor : '';
+            } while (cursor !== undefined && cursor !== '');
+
+            const users: IUser[] = new Array(ids.length);
+            let nextIndex = 0;
+            const lookUpNextUsers = async (): Promise<void> => {
+                while (nextIndex < ids.length) {
+                    const index = nextIndex;
+                    nextIndex++;
+
+                    users[index] = await this.findUser({ 'id': ids[index] });
                 }
+            };
+
+            // Start workers
+            const workers: Promise<void>[] = [];
+            for (let i = 0; i < Math.min(USER_LOOKUP_CONCURRENCY, ids.length); i++) {
+                workers.push(lookUpNextUsers());
             }
+            await Promise.all(workers);
+
+            return users.filter((user) => user !== null);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
         } finally {
             // Print end log
-            logger.end(this.processMessage, this);
+            logger.end(this.getChannelMembers, this);
         }
     }
 
+    // Get the public and private channels that the bot can see, private channels are visible only if the bot is a member.
+    async getChannels(): Promise<IChannel[]> {
+        // Print start log
+        logger.start(this.getChannels, this);
+
+        try {
+            const channels: IChannel[] = [];
+            let cursor: string = undefined;
+            do {
+                const response = await this.app.client.conversations.list({
+                    'types': 'public_channel,private_channel',
+                    'exclude_archived': true,
+                    'cursor': cursor,
+                    'limit': CHANNEL_PAGE_SIZE,
+                });
+                for (const conversation of response.channels) {
+                    const channel: IChannel = {
+                        'id': conversation.id,
+                        'name': conversation.name,
+                        'chattingType': this.getChattingType(conversation),
+                    };
+                    this.channels.set(channel.id, channel);
+                    channels.push(channel);
+                }
+                cursor = response.response_metadata !== undefined ? response.response_metadata.next_cursor : '';
+            } while (cursor !== undefined && cursor !== '');
+
+            return channels;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return [];
+        } finally {
+            // Print end log
+            logger.end(this.getChannels, this);
+        }
+    }
+
+    // Find the channel by ID or name, the cached channel is returned if it's found by ID.
+    // Slack can't find channels by name, so all channels are listed to find the channel.
+    async findChannel(channelRef: IChannelRef): Promise<IChannel> {
+        // Print start log
+        logger.start(this.findChannel, this);
+
+        try {
+            let channel: IChannel = null;
+            if (channelRef.id !== undefined && channelRef.id !== null && channelRef.id !== '') {
+                channel = this.channels.get(channelRef.id);
+                if (channel === undefined) {
+                    const conversationInfo = await this.app.client.conversations.info({ 'channel': channelRef.id });
+                    channel = {
+                        'id': conversationInfo.channel.id,
+                        'name': conversationInfo.channel.name,
+                        'chattingType': this.getChattingType(conversationInfo.channel),
+                    };
+                    this.channels.set(channel.id, channel);
+                }
+            } else if (channelRef.name !== undefined && channelRef.name !== null && channelRef.name !== '') {
+                const name = Util.toChannelName(channelRef.name.replace(/^#/, ''));
+                channel = (await this.getChannels()).find((item) => item.name === name);
+            }
+
+            return channel === undefined ? null : channel;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return null;
+        } finally {
+            // Print end log
+            logger.end(this.findChannel, this);
+        }
+    }
+
+    // Create the channel and invite the members
+    async createChannel(option: IChannelOption): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.createChannel, this);
+
+        try {
+            const response = await this.app.client.conversations.create({
+                'name': Util.toChannelName(option.name),
+                'is_private': option.private === true,
+            });
+            const channel: IChannel = {
+                'id': response.channel.id,
+                'name': response.channel.name,
+                'chattingType': this.getChattingType(response.channel),
+            };
+            this.channels.set(channel.id, channel);
+
+            if (option.purpose !== undefined && option.purpose !== null && option.purpose !== '') {
+                await this.app.client.conversations.setPurpose({ 'channel': channel.id, 'purpose': option.purpose });
+            }
+            if (option.members !== undefined && option.members !== null && option.members.length > 0) {
+                const inviteResult = await this.inviteToChannel(channel.id, option.members);
+                if (!inviteResult.success) {
+                    inviteResult.channel = channel;
+                    return inviteResult;
+                }
+            }
+
+            return Middleware.createChannelResult(channel);
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.createChannel, this);
+        }
+    }
+
+    // Invite the users to the channel
+    async inviteToChannel(channelId: string, userIds: string[]): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.inviteToChannel, this);
+
+        try {
+            await this.app.client.conversations.invite({ 'channel': channelId, 'users': userIds.join(',') });
+            return Middleware.createChannelResult();
+        } catch (err) {
+            if (err.data !== undefined && err.data.error === 'already_in_channel') {
+                return Middleware.createChannelResult();
+            }
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.inviteToChannel, this);
+        }
+    }
+
+    // Archive the channel
+    async archiveChannel(channelId: string): Promise<IChannelResult> {
+        // Print start log
+        logger.start(this.archiveChannel, this);
+
+        try {
+            await this.app.client.conversations.archive({ 'channel': channelId });
+            this.channels.delete(channelId);
+            return Middleware.createChannelResult();
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return Middleware.createFailedChannelResult(err);
+        } finally {
+            // Print end log
+            logger.end(this.archiveChannel, this);
+        }
+    }
+
+    // Get the chatting type of the Slack conversation
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private getChattingType(conversation: Record<string, any>): IChattingType {
+        let chattingType: IChattingType = IChattingType.UNKNOWN;
+        if (conversation.is_channel == true && conversation.is_mpim == false) {
+            chattingType = IChattingType.PUBLIC_CHANNEL;
+        } else if (conversation.is_group == true) {
+            chattingType = IChattingType.PRIVATE_CHANNEL;
+        } else if (conversation.is_im == true) {
+            chattingType = IChattingType.PERSONAL;
+        } else if (conversation.is_mpim == true) {
+            chattingType = IChattingType.GROUP;
+        }
+
+        return chattingType;
+    }
+
+    // Create the user from the user info of Slack
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private createUser(member: Record<string, any>): IUser {
+        const displayName = member.profile.display_name !== undefined && member.profile.display_name !== '' ? member.profile.display_name : member.real_name;
+        return {
+            'id': member.id,
+            'name': member.real_name,
+            'email': member.profile.email,
+            'displayName': displayName,
+            'timezone': member.tz,
+            'title': member.profile.title !== undefined && member.profile.title !== '' ? member.profile.title : undefined,
+        };
+    }
+
+    // Get the chat context data of the direct message channel with the user
+    async getDirectChatContext(userRef: IUserRef): Promise<IChatContextData> {
+        // Print start log
+        logger.start(this.getDirectChatContext, this);
+
+        try {
+            const user = await this.findUser(userRef);
+            if (user === null) {
+                logger.error(`The Slack user does not exist: ${JSON.stringify(userRef)}`);
+                throw new Error('The user does not exist');
+            }
+
+            // The existing direct message channel is returned if it has been opened
+            const response = await this.app.client.conversations.open({ users: user.id });
+            const chatContextData = this.createDirectChatContext(user, response.channel.id);
+            chatContextData.context.chatting.botName = this.botName;
+            return chatContextData;
+        } finally {
+            // Print end log
+            logger.end(this.getDirectChatContext, this);
+        }
+    }
+
+    // Get the files shared in the message, the private download URL requires the bot token.
+    private getAttachments(slackEvent: SlackEventMiddlewareArgs<'message'> & AllMiddlewareArgs): IAttachment[] {
+        const files = (<Record<string, any>>slackEvent.message).files; // eslint-disable-line @typescript-eslint/no-explicit-any
+        if (files === undefined || files === null) {
+            return [];
+        }
+
+        const token = slackEvent.context.botToken !== undefined ? slackEvent.context.botToken : slackEvent.client.token;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return files.map((file: Record<string, any>) => ({
+            'id': file.id,
+            'name': file.name,
+            'size': file.size,
+            'contentType': file.mimetype,
+            'download': () => Util.download(file.url_private_download, { 'Authorization': `Bearer ${token}` }),
+        }));
+    }
+
     // Process user interactive actions e.g. button clicks, menu selects.
     async processAction(slackEvent: SlackActionMiddlewareArgs & AllMiddlewareArgs): Promise<void> {
         // Print start log
@@ -307,7 +673,7 @@ export class SlackMiddleware extends Middleware {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const userInfo = await slackEvent.client.users.info({ user: (<Record<string, any>>slackEvent.body).user.id });
                 logger.debug(`Cache the user info: ${JSON.stringify(userInfo)}`);
-                user = { id: userInfo.user.id, name: userInfo.user.real_name, email: userInfo.user.profile.email };
+                user = this.createUser(userInfo.user);
                 this.addUser(userInfo.user.id, user);
             }
 
@@ -384,14 +750,15 @@ export class SlackMiddleware extends Middleware {
                         },
                     },
                     'chatTool': chatToolContext,
+                    'chatToolType': IChatToolType.SLACK,
                 },
             };
 
             // Get router
-            const router = <SlackRouter> this.bot.geRouter();
+            const router = <SlackRouter> this.bot.getRouter(IChatToolType.SLACK);
 
             // Call route handler for mouse navigation
-            await router.getRoute().handler(chatContextData);
+            await router.dispatch(chatContextData);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -435,7 +802,7 @@ export class SlackMiddleware extends Middleware {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const userInfo = await slackEvent.client.users.info({ user: (<Record<string, any>>slackEvent.body).user.id });
                 logger.debug(`Cache the user info: ${JSON.stringify(userInfo)}`);
-                user = { id: userInfo.user.id, name: userInfo.user.real_name, email: userInfo.user.profile.email };
+                user = this.createUser(userInfo.user);
                 this.addUser(userInfo.user.id, user);
             }
 
@@ -489,14 +856,15 @@ export class SlackMiddleware extends Middleware {
                         },
                     },
                     'chatTool': chatToolContext,
+                    'chatToolType': IChatToolType.SLACK,
                 },
             };
 
             // Get router
-            const router = <SlackRouter> this.bot.geRouter();
+            const router = <SlackRouter> this.bot.getRouter(IChatToolType.SLACK);
 
             // Call route handler for mouse navigation
-            await router.getRoute().handler(chatContextData);
+            await router.dispatch(chatContextData);
         } catch (err) {
         // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
@@ -507,36 +875,289 @@ export class SlackMiddleware extends Middleware {
     }
 
     // Send message back to Slack channel
-    async send(chatContextData: IChatContextData, messages: IMessage[]): Promise<void> {
+    async send(chatContextData: IChatContextData, messages: IMessage[], option?: ISendOption): Promise<ISendResult[]> {
         // Print start log
         logger.start(this.send, this);
 
+        const results: ISendResult[] = [];
         try {
+            const replyMode = option !== undefined && option !== null ? option.replyMode : undefined;
+            let threadTs = this.getReplyThreadId(chatContextData, option);
             for (const msg of messages) {
                 logger.debug(`msg: ${JSON.stringify(msg, null, 2)}`);
-                if (msg.type == IMessageType.SLACK_VIEW_OPEN) {
-                    await this.app.client.views.open(msg.message);
-                } else if (msg.type == IMessageType.SLACK_VIEW_UPDATE) {
-                    await this.app.client.views.update(msg.message);
-                } else if (msg.type == IMessageType.PLAIN_TEXT) {
-                    await this.app.client.chat.postMessage({
-                        'channel': chatContextData.context.chatting.channel.id,
-                        'text': msg.message,
-                    });
-                } else {
-                    if (msg.message.text === undefined || msg.message.text === null) {
-                        msg.message.text = 'New message from Common bot';
+                try {
+                    let response: ChatPostMessageResponse = null;
+                    if (msg.type == IMessageType.SLACK_VIEW_OPEN) {
+                        await this.app.client.views.open(msg.message);
+                    } else if (msg.type == IMessageType.SLACK_VIEW_UPDATE) {
+                        await this.app.client.views.update(msg.message);
+                    } else if (msg.type == IMessageType.FILE) {
+                        // The file is shared to the channel by Slack asynchronously, so no reference is returned
+                        if (msg.ephemeral === true) {
+                            throw new Error('Ephemeral files are not supported by Slack');
+                        }
+                        const file = <IFile>msg.message;
+                        await this.app.client.files.uploadV2({
+                            'channel_id': chatContextData.context.chatting.channel.id,
+                            'file': await Util.readContent(file.content),
+                            'filename': file.filename,
+                            'title': file.title !== undefined ? file.title : file.filename,
+                            ...(file.comment !== undefined && file.comment !== null ? { 'initial_comment': file.comment } : {}),
+                            ...(threadTs !== '' ? { 'thread_ts': threadTs } : {}),
+                        });
+                    } else if (msg.ephemeral === true) {
+                        // Ephemeral messages can't be updated or deleted, so no reference is returned
+                        await this.app.client.chat.postEphemeral({
+                            ...(msg.type == IMessageType.PLAIN_TEXT ? { 'text': msg.message } : msg.message),
+                            'channel': chatContextData.context.chatting.channel.id,
+                            'user': chatContextData.context.chatting.user.id,
+                            ...(threadTs !== '' ? { 'thread_ts': threadTs } : {}),
+                        });
+                    } else if (msg.type == IMessageType.PLAIN_TEXT) {
+                        response = await this.app.client.chat.postMessage({
+                            'channel': chatContextData.context.chatting.channel.id,
+                            'text': msg.message,
+                            ...(threadTs !== '' ? { 'thread_ts': threadTs } : {}),
+                        });
+                    } else {
+                        if (msg.message.text === undefined || msg.message.text === null) {
+                            msg.message.text = 'New message from Common bot';
+                        }
+
+                        // The thread set in the message is kept unless the reply mode is specified
+                        const message = { ...msg.message };
+                        if (replyMode !== undefined && replyMode !== null) {
+                            delete message.thread_ts;
+                        }
+                        if (threadTs !== '' && (message.thread_ts === undefined || message.thread_ts === null)) {
+                            message.thread_ts = threadTs;
+                        }
+                        response = await this.app.client.chat.postMessage(message);
+                    }
+
+                    // The rest messages are replied in the thread of the first one for a new thread
+                    if (response !== null && replyMode === IReplyMode.NEW_THREAD && threadTs === '') {
+                        threadTs = response.ts;
+                    }
+
+                    // Views are not posted to channels
+                    if (response === null) {
+                        results.push(Middleware.createSendResult(msg));
+                    } else {
+                        results.push(Middleware.createSendResult(msg, {
+                            'chatToolType': this.chatTool.type,
+                            'id': response.ts,
+                            'channelId': response.channel,
+                            'threadId': response.message !== undefined ? response.message.thread_ts : undefined,
+                            'timestamp': Math.round(Number(response.ts) * 1000),
+                        }));
                     }
-                    await this.app.client.chat.postMessage(msg.message);
+                } catch (err) {
+                    results.push(Middleware.createFailedSendResult(msg, err));
                 }
             }
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
+            for (const msg of messages.slice(results.length)) {
+                results.push(Middleware.createFailedSendResult(msg, err));
+            }
         } finally {
             // Print end log
             logger.end(this.send, this);
         }
+
+        return results;
+    }
+
+    // Show the bot is working on the received message.
+    // Bots can't show the typing indicator via the Events API, so a reaction is added to the message instead.
+    async sendTyping(chatContextData: IChatContextData): Promise<void> {
+        const messageRef = chatContextData.context.chatting.messageRef;
+        if (messageRef === undefined || messageRef === null || this.typingMessages.has(messageRef.id)) {
+            return;
+        }
+
+        this.typingMessages.add(messageRef.id);
+        await this.addReaction(messageRef, TYPING_EMOJI);
+    }
+
+    // Remove the reaction added by sendTyping()
+    async stopTyping(chatContextData: IChatContextData): Promise<void> {
+        const messageRef = chatContextData.context.chatting.messageRef;
+        if (messageRef === undefined || messageRef === null || !this.typingMessages.has(messageRef.id)) {
+            return;
+        }
+
+        this.typingMessages.delete(messageRef.id);
+        await this.removeReaction(messageRef, TYPING_EMOJI);
+    }
+
+    // Replace the content of one sent message, the text and blocks of all messages are combined into the message
+    async update(messageRef: IMessageRef, messages: IMessage[]): Promise<ISendResult[]> {
+        // Print start log
+        logger.start(this.update, this);
+
+        try {
+            const texts: string[] = [];
+            const blocks: KnownBlock[] = [];
+            for (const msg of messages) {
+                if (msg.type === IMessageType.SLACK_VIEW_OPEN || msg.type === IMessageType.SLACK_VIEW_UPDATE || msg.type === IMessageType.FILE) {
+                    throw new Error(`The message type ${msg.type} can't be used to update a message`);
+                } else if (msg.type === IMessageType.PLAIN_TEXT) {
+                    texts.push(msg.message);
+                    continue;
+                }
+
+                if (msg.message.text !== undefined && msg.message.text !== null && msg.message.text !== '') {
+                    texts.push(msg.message.text);
+                }
+                if (Array.isArray(msg.message.blocks)) {
+                    blocks.push(...msg.message.blocks);
+                }
+            }
+
+            const response = await this.app.client.chat.update({
+                'channel': messageRef.channelId,
+                'ts': messageRef.id,
+                'text': texts.length > 0 ? texts.join('\n') : 'New message from Common bot',
+                'blocks': blocks,
+            });
+            const ref: IMessageRef = {
+                ...messageRef,
+                'id': response.ts,
+                'channelId': response.channel,
+            };
+            return messages.map((msg) => Middleware.createSendResult(msg, ref));
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return messages.map((msg) => Middleware.createFailedSendResult(msg, err));
+        } finally {
+            // Print end log
+            logger.end(this.update, this);
+        }
+    }
+
+    // Delete one sent message
+    async delete(messageRef: IMessageRef): Promise<boolean> {
+        // Print start log
+        logger.start(this.delete, this);
+
+        try {
+            await this.app.client.chat.delete({
+                'channel': messageRef.channelId,
+                'ts': messageRef.id,
+            });
+            return true;
+        } catch (err) {
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.delete, this);
+        }
+    }
+
+    // Add an emoji reaction to one message, it's treated as added if the bot has already reacted with the emoji
+    async addReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.addReaction, this);
+
+        try {
+            await this.app.client.reactions.add({
+                'channel': messageRef.channelId,
+                'timestamp': messageRef.id,
+                'name': Emoji.normalize(emoji),
+            });
+            return true;
+        } catch (err) {
+            if (err.data !== undefined && err.data.error === 'already_reacted') {
+                return true;
+            }
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.addReaction, this);
+        }
+    }
+
+    // Remove an emoji reaction from one message, it's treated as removed if the bot hasn't reacted with the emoji
+    async removeReaction(messageRef: IMessageRef, emoji: string): Promise<boolean> {
+        // Print start log
+        logger.start(this.removeReaction, this);
+
+        try {
+            await this.app.client.reactions.remove({
+                'channel': messageRef.channelId,
+                'timestamp': messageRef.id,
+                'name': Emoji.normalize(emoji),
+            });
+            return true;
+        } catch (err) {
+            if (err.data !== undefined && err.data.error === 'no_reaction') {
+                return true;
+            }
+            // Print exception stack
+            logger.error(logger.getErrorStack(new Error(err.name), err));
+            return false;
+        } finally {
+            // Print end log
+            logger.end(this.removeReaction, this);
+        }
+    }
+
+    // Create the messages to show command help as Slack blocks
+    createHelpMessages(chatContextData: IChatContextData, help: ICommandHelp): IMessage[] {
+        const blocks: Record<string, any>[] = [{ // eslint-disable-line @typescript-eslint/no-explicit-any
+            'type': 'header',
+            'text': {
+                'type': 'plain_text',
+                'text': help.title.substring(0, 150), // Maximum length of the header text is 150
+            },
+        }];
+        if (help.description !== undefined && help.description !== null && help.description !== '') {
+            blocks.push({
+                'type': 'section',
+                'text': {
+                    'type': 'mrkdwn',
+                    'text': help.description,
+                },
+            });
+        }
+
+        // Put 10 items in one section to avoid exceeding the text limit of the section
+        for (let i = 0; i < help.items.length; i = i + 10) {
+            const lines = help.items.slice(i, i + 10).map((item) => `\`${item.name}\`\n${item.description}`);
+            blocks.push({
+                'type': 'section',
+                'text': {
+                    'type': 'mrkdwn',
+                    'text': lines.join('\n'),
+                },
+            });
+        }
+        if (help.footer !== undefined && help.footer !== null && help.footer !== '') {
+            blocks.push({
+                'type': 'context',
+                'elements': [{
+                    'type': 'mrkdwn',
+                    'text': help.footer,
+                }],
+            });
+        }
+
+        return [{
+            'type': IMessageType.SLACK_BLOCK,
+            'message': {
+                'channel': chatContextData.context.chatting.channel.id,
+                'text': help.title,
+                'blocks': blocks,
+            },
+        }];
     }
 
     // Get user infos
@@ -563,22 +1184,10 @@ export class SlackMiddleware extends Middleware {
 
         try {
             const conversationInfo = await slackWebClient.conversations.info({ channel: id });
-
-            let chattingType: IChattingType = IChattingType.UNKNOWN;
-            if (conversationInfo.channel.is_channel == true && conversationInfo.channel.is_mpim == false) {
-                chattingType = IChattingType.PUBLIC_CHANNEL;
-            } else if (conversationInfo.channel.is_group == true) {
-                chattingType = IChattingType.PRIVATE_CHANNEL;
-            } else if (conversationInfo.channel.is_im == true) {
-                chattingType = IChattingType.PERSONAL;
-            } else if (conversationInfo.channel.is_mpim == true) {
-                chattingType = IChattingType.GROUP;
-            }
-
             const channel: IChannel = {
                 'id': id,
                 'name': conversationInfo.channel.name,
-                'chattingType': chattingType,
+                'chattingType': this.getChattingType(conversationInfo.channel),
             };
 
             return channel;
@@ -8,7 +8,7 @@
 * Copyright Contributors to the Zowe Project.
 */
 
-import type { IRouteHandlerFunction } from '../../types';
+import type { IChatTool, IRouteHandlerFunction, IRouteOption } from '../../types';
 
 import { CommonBot } from '../../CommonBot';
 import { Router } from '../../Router';
@@ -18,24 +18,21 @@ const logger = Logger.getInstance();
 
 export class SlackRouter extends Router {
     // Constructor
-    constructor(bot: CommonBot) {
-        super(bot);
+    constructor(bot: CommonBot, chatTool: IChatTool) {
+        super(bot, chatTool);
 
         // Bind this pointer
         this.route = this.route.bind(this);
     }
 
     // Run router
-    async route(path: string, handler: IRouteHandlerFunction): Promise<void> {
+    async route(path: string, handler: IRouteHandlerFunction, option?: IRouteOption): Promise<void> {
         // Print start log
         logger.start(this.route, this);
 
         try {
-            // Set router
-            this.router = {
-                path: path,
-                handler: handler,
-            };
+            // Add route
+            this.addRoute(path, handler, option);
         } catch (err) {
             // Print exception stack
             logger.error(logger.getErrorStack(new Error(err.name), err));
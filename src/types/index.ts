@@ -9,8 +9,13 @@
 */
 
 import type { Application } from 'express';
+import type { Readable } from 'stream';
 import type { Receiver } from '@slack/bolt';
 import { CommonBot } from '../CommonBot';
+import type { Listener } from '../Listener';
+import type { Router } from '../Router';
+import type { Middleware } from '../Middleware';
+import type { BotLimit } from '../BotLimit';
 
 export { TaskModuleTaskInfo, Attachment } from 'botbuilder';
 
@@ -32,11 +37,14 @@ export const enum ILogLevel {
     SILLY = 'silly'
 }
 
-export const enum IChatToolType {
-    MATTERMOST = 'mattermost',
-    SLACK = 'slack',
-    MSTEAMS = 'msteams'
-}
+// Built-in chat tool types. Other chat tools can be supported by registering their adapters via CommonBot.registerAdapter().
+export const IChatToolType = {
+    MATTERMOST: 'mattermost',
+    SLACK: 'slack',
+    MSTEAMS: 'msteams',
+} as const;
+// One of the built-in chat tool types, or the type of a registered adapter
+export type IChatToolType = typeof IChatToolType[keyof typeof IChatToolType] | string;
 
 export const enum IMessageType {
     PLAIN_TEXT = 'plainText',
@@ -50,6 +58,8 @@ export const enum IMessageType {
 
     MSTEAMS_ADAPTIVE_CARD = 'msteams.adaptiveCard',
     MSTEAMS_DIALOG_OPEN = 'msteams.dialog.open',
+
+    FILE = 'file', // The message is an IFile, which is supported by all chat tools
 }
 
 export const enum IChattingType {
@@ -73,6 +83,36 @@ export const enum IActionType {
     UNSUPPORTED = 'unsupported'
 }
 
+export const enum IBotState {
+    CREATED = 'created', // Created but not started, listeners and routers could still be created to run the bot
+    STARTING = 'starting',
+    RUNNING = 'running',
+    STOPPING = 'stopping', // New messages and events are dropped, in-flight ones are being drained
+    STOPPED = 'stopped',
+}
+
+export const enum IMessageDispatchMode {
+    ALL_MATCHES = 'allMatches', // Call handlers of all matched matchers
+    FIRST_MATCH = 'firstMatch', // Only call handlers of the first matched matcher
+}
+
+export const enum IMessageHandlerResult {
+    CONTINUE = 'continue', // Continue to call the rest handlers
+    STOP = 'stop', // Stop calling the rest handlers
+}
+
+export const enum IReplyMode {
+    THREAD = 'thread', // Reply in the thread of the received message, a new thread is started under the message if it's not in a thread
+    CHANNEL = 'channel', // Post all messages to the channel
+    NEW_THREAD = 'newThread', // Post the first message to the channel, and the rest messages in its thread
+}
+
+export const enum ICommandValueType {
+    STRING = 'string',
+    NUMBER = 'number',
+    BOOLEAN = 'boolean',
+}
+
 export const enum IConnectionStatus {
     ALIVE = 'alive',
     NOT_CONNECTED = 'not_connected',
@@ -100,11 +140,103 @@ export interface IMessage {
     type: IMessageType,
     message: any, // eslint-disable-line @typescript-eslint/no-explicit-any
     mentions?: Record<string, any>[], // eslint-disable-line @typescript-eslint/no-explicit-any
+    ephemeral?: boolean, // Only visible to the user who sent the received message. Default: false
+}
+
+// File to be uploaded via IMessageType.FILE
+export interface IFile {
+    filename: string,
+    content: Buffer | Readable,
+    comment?: string, // Text posted along with the file
+    title?: string, // Default: the file name
+    contentType?: string, // MIME type of the file. Default: application/octet-stream
+}
+
+// File attached to the received message
+export interface IAttachment {
+    id: string,
+    name: string,
+    size?: number, // Unit: byte. Not provided by MS Teams.
+    contentType: string, // MIME type of the file
+    download: () => Promise<Buffer>, // Download the file via the authenticated API of the chat tool
+}
+
+// Reference of one sent message, which could be used to update or delete the message
+export interface IMessageRef {
+    chatToolType: IChatToolType,
+    id: string, // Mattermost post id, Slack message ts, or MS Teams activity id
+    channelId: string, // Mattermost channel id, Slack channel id, or MS Teams conversation id
+    threadId?: string, // Mattermost root post id, Slack thread ts, or MS Teams root message id
+    timestamp?: number, // Milliseconds since epoch
+    extraData?: Record<string, any>, // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+// Delivery result of one message
+export interface ISendResult {
+    message: IMessage,
+    success: boolean,
+    ref?: IMessageRef, // Not set if nothing is posted, e.g. a dialog is opened
+    error?: ISendError,
+}
+
+export interface ISendOption {
+    replyMode?: IReplyMode, // Default: reply in the thread if the received message is in a thread, otherwise post to the channel
+}
+
+export interface ISendError {
+    name: string,
+    message: string,
+    code?: string | number, // HTTP status code or error code of the chat tool, or IErrorCode
+}
+
+export const enum IErrorCode {
+    NOT_SUPPORTED = 'NOT_SUPPORTED', // The operation is not supported by the chat tool
+}
+
+// Result of creating a channel, inviting users or archiving a channel
+export interface IChannelResult {
+    success: boolean,
+    channel?: IChannel, // The created channel, which is set even if the members failed to be invited
+    error?: ISendError, // The code is IErrorCode.NOT_SUPPORTED if the chat tool doesn't support the operation
 }
 
 export interface IBotOption {
     messagingApp: IMessagingApp,
-    chatTool: IChatTool
+    chatTool: IChatTool | IChatTool[], // One chat tool, or a list of chat tools served by the same bot
+    messageDispatchMode?: IMessageDispatchMode, // Default: IMessageDispatchMode.ALL_MATCHES
+    handlerExecution?: IHandlerExecutionOption,
+    health?: IHealthOption,
+}
+
+export interface ILifecycleOption {
+    timeout?: number, // Maximum time in milliseconds to wait for chat tools to be ready, or in-flight handlers to finish. Default: 30000
+}
+
+export interface IHealthOption {
+    enabled?: boolean, // Mount health endpoints on the messaging app. Default: false
+    livenessPath?: string, // Default: /healthz
+    readinessPath?: string, // Default: /readyz
+}
+
+export interface IBotHealth {
+    state: IBotState,
+    ready: boolean,
+    chatTools: IChatToolHealth[],
+}
+
+export interface IChatToolHealth {
+    chatToolType: IChatToolType,
+    ready: boolean,
+    status: IConnectionStatus,
+    details?: Record<string, any>, // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+export interface IHandlerExecutionOption {
+    concurrent?: boolean, // Call handlers of matched matchers concurrently. Default: false
+    maxConcurrency?: number, // Maximum number of handlers running at the same time in concurrent mode. Default: 0, no limit
+    timeout?: number, // Timeout of each handler in milliseconds. Default: 0, no timeout
+    typingIndicator?: boolean, // Show the typing indicator while matched handlers are running. Default: false
+    typingInterval?: number, // Interval in milliseconds to refresh the typing indicator. Default: 3000
 }
 
 export interface ILogOption {
@@ -134,7 +266,15 @@ export interface IMessagingApp {
 
 export interface IChatTool {
     type: IChatToolType,
-    option: IMattermostOption | ISlackOption | IMsteamsOption
+    option: IMattermostOption | ISlackOption | IMsteamsOption | Record<string, any> // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+// Classes used to support one chat tool
+export interface IChatToolAdapter {
+    Listener: new (bot: CommonBot, chatTool: IChatTool) => Listener,
+    Router: new (bot: CommonBot, chatTool: IChatTool) => Router,
+    Middleware: new (bot: CommonBot, chatTool: IChatTool) => Middleware,
+    BotLimit?: new () => BotLimit,
 }
 
 // # Mattermost Variable         Required  Description
@@ -268,12 +408,66 @@ export interface IMessageMatcherFunction {
 }
 
 export interface IMessageHandlerFunction {
-    (chatContextData: IChatContextData): Promise<void>
+    (chatContextData: IChatContextData): Promise<void | IMessageHandlerResult>
 }
 
 export interface IMessageMatcher {
     matcher: IMessageMatcherFunction,
-    handlers: IMessageHandlerFunction[]
+    handlers: IMessageHandlerFunction[],
+    priority: number,
+}
+
+// Events emitted by the bot, and the listener of each event
+export interface IBotEventListeners {
+    'connected': (event: IConnectionEvent) => void,
+    'disconnected': (event: IConnectionEvent) => void,
+    'reconnecting': (event: IConnectionEvent) => void,
+    'messageReceived': (chatContextData: IChatContextData) => void,
+    'actionReceived': (chatContextData: IChatContextData) => void,
+    'sendFailed': (err: Error, chatContextData: IChatContextData, messages: IMessage[]) => void,
+    'handlerError': (err: Error, chatContextData: IChatContextData) => void,
+}
+
+export type IConnectionEventName = 'connected' | 'disconnected' | 'reconnecting';
+
+export interface IConnectionEvent {
+    chatToolType: IChatToolType,
+    status: IConnectionStatus,
+    reason?: string,
+    attempt?: number, // Number of reconnect attempts, only set for the reconnecting event
+}
+
+export interface IErrorHandlerFunction {
+    (err: Error, chatContextData: IChatContextData): Promise<void>
+}
+
+export interface IDisposerFunction {
+    (): void
+}
+
+// Step of the inbound pipeline, which runs before messages are matched and events are dispatched to routes.
+// Call next() to pass the message or event to the next step, or skip it to drop the message or event.
+export interface IInboundMiddlewareFunction {
+    (chatContextData: IChatContextData, next: INextFunction): Promise<void>
+}
+
+export interface INextFunction {
+    (): Promise<void>
+}
+
+// Outbound interceptor, which runs before messages are sent by the chat tool.
+// Return the messages to be sent, which could be rewritten, or an empty array to veto the messages.
+export interface IOutboundInterceptorFunction {
+    (chatContextData: IChatContextData, messages: IMessage[], target: IOutboundTarget): Promise<IMessage[]>
+}
+
+export interface IOutboundTarget {
+    chatToolType: IChatToolType;
+    channel: IName;
+}
+
+export interface IListenerOption {
+    priority?: number, // Matchers with higher priority will be matched first. Default: 0
 }
 
 export interface IMessageHandlerIndex {
@@ -281,11 +475,19 @@ export interface IMessageHandlerIndex {
     handlerIndex: number
 }
 
-export interface IRoute {
+export interface IRoute extends IRouteOption {
     path: string,
     handler: IRouteHandlerFunction
 }
 
+// Option used to decide which events will be dispatched to the route.
+// The route without pluginId and actionId is the fallback route for the events that don't match any other routes.
+export interface IRouteOption {
+    name?: string, // Route name, only used to identify the route
+    pluginId?: string, // Match IEvent.pluginId
+    actionId?: string | RegExp, // Match IEvent.action.id
+}
+
 export interface IRouteHandlerFunction {
     (chatContextData: IChatContextData): Promise<void | Record<string, any>> // eslint-disable-line @typescript-eslint/no-explicit-any
 }
@@ -294,6 +496,17 @@ export interface IUser {
     id: string,
     name: string,
     email: string,
+    displayName?: string, // Name shown in the chat tool
+    timezone?: string, // IANA time zone name, e.g. America/New_York. Not provided by MS Teams.
+    title?: string, // Job title or position. Not provided by MS Teams.
+}
+
+// Reference of one user, either the ID, username or email of the user is required
+export interface IUserRef {
+    chatToolType?: IChatToolType, // Optional only if one chat tool is configured
+    id?: string,
+    name?: string, // Username for Mattermost and Slack, display name for MS Teams
+    email?: string,
 }
 
 // export interface IChatContextData {
@@ -311,6 +524,8 @@ export interface IChatContextData {
     payload: IPayload;
     context: IContext;
     extraData?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    command?: IParsedCommand; // Parsed command, only set for the handlers of commands registered in CommandRegistry
+    signal?: AbortSignal; // Aborted when the message handler times out, only set if the handler timeout is set
 }
 
 export interface IPayload {
@@ -320,6 +535,7 @@ export interface IPayload {
 export interface IContext {
     chatting: IChattingContext;
     chatTool: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+    chatToolType?: IChatToolType; // The chat tool where the message or event comes from. Optional only if one chat tool is configured.
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -329,11 +545,15 @@ export interface IChatToolContext {
 
 export interface IChattingContext {
     bot: CommonBot;
+    botName?: string; // Name used to @mention the bot, it's added to the beginning of the message if users don't @mention the bot
     type: IChattingType;
     user: IUser;
     channel: IName;
     team: IName;
     tenant: IName;
+    messageRef?: IMessageRef; // Reference of the received message, e.g. to add reactions to it
+    threadId?: string; // ID of the thread root if the message is in a thread. Set it to send proactive messages to a thread.
+    attachments?: IAttachment[]; // Files attached to the received message
 }
 
 export interface IEvent{
@@ -358,6 +578,22 @@ export interface IChannel {
     chattingType: IChattingType;
 }
 
+// Reference of one channel, either the ID or name of the channel is required
+export interface IChannelRef {
+    chatToolType?: IChatToolType; // Optional only if one chat tool is configured
+    id?: string;
+    name?: string; // The display name or the name in the channel URL for Mattermost, the channel name for Slack, and the display name for MS Teams
+}
+
+// Option to create a channel
+export interface IChannelOption {
+    chatToolType?: IChatToolType; // Optional only if one chat tool is configured
+    name: string; // Converted to lower case letters, numbers, hyphens and underscores for Mattermost and Slack
+    private?: boolean; // Default: false
+    purpose?: string;
+    members?: string[]; // IDs of the users invited to the channel
+}
+
 export interface IBotLimit {
     messageMaxLength: number; // Unit: characters for Mattermost and Slack, byte for Microsoft Teams
 }
@@ -388,6 +624,48 @@ export interface IMsteamsBotLimit extends IBotLimit {
     fileAttachmentMaxNumber: number;
 }
 
+// Definition of one positional argument or option of the command
+export interface ICommandParameter {
+    name: string,
+    type?: ICommandValueType, // Default: ICommandValueType.STRING
+    required?: boolean, // Default: false
+    default?: ICommandValue, // Used when the value is not provided
+    description?: string,
+}
+
+export interface ICommandOption extends ICommandParameter {
+    alias?: string, // One-letter short name, e.g. "o" for "-o"
+}
+
+export interface ICommand {
+    name: string, // Command name, which could contain sub-commands separated by space, e.g. "job list"
+    description?: string,
+    arguments?: ICommandParameter[], // Positional arguments in order
+    options?: ICommandOption[],
+    handler: IMessageHandlerFunction,
+}
+
+export type ICommandValue = string | number | boolean;
+
+// Content of the command help, which is rendered by the middleware of each chat tool
+export interface ICommandHelp {
+    title: string,
+    description?: string,
+    items: ICommandHelpItem[], // Commands, or arguments and options of one command
+    footer?: string,
+}
+
+export interface ICommandHelpItem {
+    name: string,
+    description: string,
+}
+
+export interface IParsedCommand {
+    name: string,
+    arguments: Record<string, ICommandValue>,
+    options: Record<string, ICommandValue>,
+}
+
 export interface IMaskingPattern {
     pattern: string;
     replacement: string;
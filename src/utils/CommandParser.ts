@@ -0,0 +1,241 @@
+/*
+* This program and the accompanying materials are made available under the terms of the
+* Eclipse Public License v2.0 which accompanies this distribution, and is available at
+* https://www.eclipse.org/legal/epl-v20.html
+*
+* SPDX-License-Identifier: EPL-2.0
+*
+* Copyright Contributors to the Zowe Project.
+*/
+
+import { ICommand, ICommandOption, ICommandParameter, ICommandValue, ICommandValueType, IParsedCommand } from '../types';
+
+export class CommandParser {
+    // Create the error thrown for invalid command input
+    static createError(message: string): Error {
+        const error = new Error(message);
+        error.name = 'CommandError';
+        return error;
+    }
+
+    // Remove the leading @mention of the bot from the message, return null if the message doesn't start with the @mention
+    //  - botName: the bot name. If it's not provided, any leading @mention is accepted.
+    static stripMention(message: string, botName?: string): string {
+        const text = message.trim();
+        if (botName === undefined || botName === null || botName.trim() === '') {
+            return /^@\S+/.test(text) ? text.replace(/^@\S+\s*/, '') : null;
+        }
+
+        const mention = `@${botName.trim()}`;
+        if (text.toLowerCase().startsWith(mention.toLowerCase())
+            && (text.length === mention.length || /\s/.test(text.charAt(mention.length)))) {
+            return text.substring(mention.length).trim();
+        }
+
+        return null;
+    }
+
+    // Split the message into words, double quotes, single quotes and backslash escape are supported
+    static tokenize(message: string): string[] {
+        const tokens: string[] = [];
+        let token = '';
+        let inToken = false;
+        let quote = '';
+        for (let i = 0; i < message.length; i++) {
+            const char = message.charAt(i);
+            if (char === '\\' && i + 1 < message.length && quote !== '\'') {
+                token = token + message.charAt(++i);
+                inToken = true;
+            } else if (quote !== '') {
+                if (char === quote) {
+                    quote = '';
+                } else {
+                    token = token + char;
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+                inToken = true;
+            } else if (/\s/.test(char)) {
+                if (inToken) {
+                    tokens.push(token);
+                    token = '';
+                    inToken = false;
+                }
+            } else {
+                token = token + char;
+                inToken = true;
+            }
+        }
+
+        if (quote !== '') {
+            throw CommandParser.createError(`Unterminated quote ${quote} in the command`);
+        }
+        if (inToken) {
+            tokens.push(token);
+        }
+
+        return tokens;
+    }
+
+    // Get the number of leading tokens that match the command name, return 0 if not matched
+    static matchName(command: ICommand, tokens: string[]): number {
+        const words = command.name.trim().split(/\s+/);
+        if (tokens.length < words.length) {
+            return 0;
+        }
+        for (let i = 0; i < words.length; i++) {
+            if (words[i].toLowerCase() !== tokens[i].toLowerCase()) {
+                return 0;
+            }
+        }
+
+        return words.length;
+    }
+
+    // Parse the arguments and options of the command
+    //  - tokens: the tokens after the command name
+    static parse(command: ICommand, tokens: string[]): IParsedCommand {
+        const argumentDefinitions = (command.arguments === undefined || command.arguments === null) ? [] : command.arguments;
+        const optionDefinitions = (command.options === undefined || command.options === null) ? [] : command.options;
+        const parsedCommand: IParsedCommand = {
+            'name': command.name,
+            'arguments': {},
+            'options': {},
+        };
+
+        const positionals: string[] = [];
+        let endOfOptions = false;
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (endOfOptions || !token.startsWith('-') || token === '-' || /^-\d/.test(token)) {
+                positionals.push(token);
+                continue;
+            }
+            if (token === '--') {
+                endOfOptions = true;
+                continue;
+            }
+
+            // Find the option by its name or alias
+            let key = '';
+            let value: string = null;
+            let option: ICommandOption = null;
+            if (token.startsWith('--')) {
+                const index = token.indexOf('=');
+                key = index === -1 ? token.substring(2) : token.substring(2, index);
+                value = index === -1 ? null : token.substring(index + 1);
+                option = optionDefinitions.find((definition) => definition.name === key) || null;
+            } else {
+                key = token.substring(1);
+                option = optionDefinitions.find((definition) => definition.alias === key) || null;
+            }
+            if (option === null) {
+                throw CommandParser.createError(`Unknown option: ${token}`);
+            }
+
+            // Boolean option doesn't need a value unless it's given with "="
+            if (value === null) {
+                if (option.type === ICommandValueType.BOOLEAN) {
+                    value = 'true';
+                } else if (i + 1 < tokens.length) {
+                    value = tokens[++i];
+                } else {
+                    throw CommandParser.createError(`Missing value for the option: --${option.name}`);
+                }
+            }
+            parsedCommand.options[option.name] = CommandParser.convert(option, value, `option --${option.name}`);
+        }
+
+        // Assign positional arguments
+        if (positionals.length > argumentDefinitions.length) {
+            throw CommandParser.createError(`Too many arguments: ${positionals.slice(argumentDefinitions.length).join(' ')}`);
+        }
+        for (let i = 0; i < argumentDefinitions.length; i++) {
+            const definition = argumentDefinitions[i];
+            if (i < positionals.length) {
+                parsedCommand.arguments[definition.name] = CommandParser.convert(definition, positionals[i], `argument <${definition.name}>`);
+            } else if (definition.required === true) {
+                throw CommandParser.createError(`Missing required argument: <${definition.name}>`);
+            } else if (definition.default !== undefined) {
+                parsedCommand.arguments[definition.name] = definition.default;
+            }
+        }
+
+        // Check required options and apply defaults
+        for (const definition of optionDefinitions) {
+            if (parsedCommand.options[definition.name] !== undefined) {
+                continue;
+            }
+            if (definition.required === true) {
+                throw CommandParser.createError(`Missing required option: --${definition.name}`);
+            } else if (definition.default !== undefined) {
+                parsedCommand.options[definition.name] = definition.default;
+            }
+        }
+
+        return parsedCommand;
+    }
+
+    // Convert the value to the type of the argument or option
+    static convert(definition: ICommandParameter, value: string, label: string): ICommandValue {
+        if (definition.type === ICommandValueType.NUMBER) {
+            const result = Number(value);
+            if (value.trim() === '' || isNaN(result)) {
+                throw CommandParser.createError(`Invalid number for the ${label}: ${value}`);
+            }
+            return result;
+        } else if (definition.type === ICommandValueType.BOOLEAN) {
+            const text = value.toLowerCase();
+            if (text === 'true' || text === 'yes' || text === '1') {
+                return true;
+            } else if (text === 'false' || text === 'no' || text === '0') {
+                return false;
+            }
+            throw CommandParser.createError(`Invalid boolean for the ${label}: ${value}`);
+        }
+
+        return value;
+    }
+
+    // Get the edit distance between two strings, which is used to find similar command names
+    static getDistance(source: string, target: string): number {
+        let previous: number[] = [];
+        for (let j = 0; j <= target.length; j++) {
+            previous.push(j);
+        }
+        for (let i = 1; i <= source.length; i++) {
+            const current: number[] = [i];
+            for (let j = 1; j <= target.length; j++) {
+                const cost = source.charAt(i - 1) === target.charAt(j - 1) ? 0 : 1;
+                current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+            }
+            previous = current;
+        }
+
+        return previous[target.length];
+    }
+
+    // Get the usage of the command, e.g. "job list <owner> [prefix] [--status <string>] [-v|--verbose]"
+    static getUsage(command: ICommand): string {
+        const parts: string[] = [command.name];
+        if (command.arguments !== undefined && command.arguments !== null) {
+            for (const definition of command.arguments) {
+                parts.push(definition.required === true ? `<${definition.name}>` : `[${definition.name}]`);
+            }
+        }
+        if (command.options !== undefined && command.options !== null) {
+            for (const definition of command.options) {
+                let option = `--${definition.name}`;
+                if (definition.alias !== undefined && definition.alias !== null) {
+                    option = `-${definition.alias}|${option}`;
+                }
+                if (definition.type !== ICommandValueType.BOOLEAN) {
+                    option = `${option} <${definition.type === undefined ? ICommandValueType.STRING : definition.type}>`;
+                }
+                parts.push(definition.required === true ? option : `[${option}]`);
+            }
+        }
+
+        return parts.join(' ');
+    }
+}
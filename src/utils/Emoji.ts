@@ -0,0 +1,67 @@
+/*
+* This program and the accompanying materials are made available under the terms of the
+* Eclipse Public License v2.0 which accompanies this distribution, and is available at
+* https://www.eclipse.org/legal/epl-v20.html
+*
+* SPDX-License-Identifier: EPL-2.0
+*
+* Copyright Contributors to the Zowe Project.
+*/
+
+// Emoji names shared by Mattermost and Slack, and their unicode characters
+const EMOJIS: Record<string, string> = {
+    '+1': '\u{1F44D}',
+    '-1': '\u{1F44E}',
+    'eyes': '\u{1F440}',
+    'white_check_mark': '\u{2705}',
+    'heavy_check_mark': '\u{2714}\u{FE0F}',
+    'x': '\u{274C}',
+    'warning': '\u{26A0}\u{FE0F}',
+    'hourglass': '\u{231B}',
+    'hourglass_flowing_sand': '\u{23F3}',
+    'octagonal_sign': '\u{1F6D1}',
+    'question': '\u{2753}',
+    'exclamation': '\u{2757}',
+    'repeat': '\u{1F501}',
+    'rocket': '\u{1F680}',
+    'tada': '\u{1F389}',
+    'fire': '\u{1F525}',
+    'bug': '\u{1F41B}',
+    'heart': '\u{2764}\u{FE0F}',
+    'smile': '\u{1F604}',
+    'slightly_smiling_face': '\u{1F642}',
+    'laughing': '\u{1F606}',
+    'open_mouth': '\u{1F62E}',
+    'cry': '\u{1F622}',
+    'angry': '\u{1F620}',
+    'thinking_face': '\u{1F914}',
+};
+
+// Aliases of the emoji names, including the ones only known by one chat tool and the reaction types of MS Teams
+const ALIASES: Record<string, string> = {
+    'thumbsup': '+1',
+    'thumbsdown': '-1',
+    'like': '+1',
+    'simple_smile': 'slightly_smiling_face',
+    'thinking': 'thinking_face',
+    'stop_sign': 'octagonal_sign',
+    'laugh': 'laughing',
+    'surprised': 'open_mouth',
+    'sad': 'cry',
+};
+
+export class Emoji {
+    // Normalize the emoji to its name without colons, e.g. ":thumbsup:", "thumbsup" and "👍" are all normalized to "+1".
+    // Unknown emoji names are returned in lower case, so custom emojis of Mattermost and Slack can be used too.
+    static normalize(emoji: string): string {
+        const text = emoji.trim();
+        for (const name of Object.keys(EMOJIS)) {
+            if (EMOJIS[name] === text || EMOJIS[name].replace('\u{FE0F}', '') === text) {
+                return name;
+            }
+        }
+
+        const name = text.replace(/^:/, '').replace(/:$/, '').toLowerCase();
+        return ALIASES[name] !== undefined ? ALIASES[name] : name;
+    }
+}
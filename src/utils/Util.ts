@@ -10,8 +10,12 @@
 
 
 import * as nodeUtil from 'util';
+import type { Readable } from 'stream';
+import superagent from 'superagent';
 import { IMaskingPattern } from '../types';
 
+const MAX_CHANNEL_NAME_LENGTH = 64; // Mattermost allows 64 characters and Slack allows 80 characters
+
 export class Util {
     // }
 
@@ -65,6 +69,31 @@ export class Util {
             return `${dumpResultHeader}\n${Util.concatLines(result)}`;
         }
     }
+    // Read all content of the buffer or stream
+    static async readContent(content: Buffer | Readable): Promise<Buffer> {
+        if (Buffer.isBuffer(content)) {
+            return content;
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of content) {
+            chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        }
+        return Buffer.concat(chunks);
+    }
+
+    // Download the file
+    //  - headers: the request headers, e.g. the Authorization header
+    static async download(url: string, headers: Record<string, string> = {}): Promise<Buffer> {
+        const response = await superagent.get(url).set(headers).responseType('blob');
+        return response.body;
+    }
+
+    // Convert the name to the channel name accepted by Mattermost and Slack, e.g. "War Room: INC-123" is converted to "war-room-inc-123"
+    static toChannelName(name: string): string {
+        return name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').substring(0, MAX_CHANNEL_NAME_LENGTH);
+    }
+
     // Concatenate lines
     static concatLines(text: string): string {
         const lines = text.split(/\r\n|\n\r|\r|\n/);